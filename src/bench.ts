@@ -0,0 +1,54 @@
+import { Parser, Source, char, oneOf, eof, lazy } from ".";
+import { json } from "./parsers/json";
+
+/**
+ * PEG-style grammar with alternatives sharing a prefix:
+ *     expr = term "+" expr / term "-" expr / term
+ *     term = "(" expr ")" / digit
+ * every alternative of "expr" re-parses "term", without memoization that is 3^depth parses of the innermost term
+ */
+function grammar(memo: boolean) {
+    const paren = char("(").next(lazy(() => expr)).followedBy(char(")")).map((inner) => `(${inner})`);
+    let term = paren.or(oneOf("0123456789"));
+    if (memo) {
+        term = term.memo();
+    }
+    const infix = (op: string) => term.followedBy(char(op)).then(lazy(() => expr)).map(([l, r]) => `${l}${op}${r}`).attempt();
+    const expr: Parser<string> = infix("+").or(infix("-")).or(term);
+    return expr.followedBy(eof());
+}
+
+function nested(depth: number) {
+    return "(".repeat(depth) + "1" + ")".repeat(depth);
+}
+
+function measure(parser: Parser<any>, input: string) {
+    const start = process.hrtime();
+    const result = parser.parse(new Source(input, 0));
+    const [s, ns] = process.hrtime(start);
+    if (!result.is_ok()) {
+        throw new Error(`benchmark input did not parse: ${result.unwrap_err()}`);
+    }
+    return (s * 1e3 + ns / 1e6).toFixed(2);
+}
+
+const plain = grammar(false);
+const memoized = grammar(true);
+
+console.log("depth\tplain ms\tmemo ms");
+for (const depth of [2, 4, 6, 8, 10, 12]) {
+    const input = nested(depth);
+    console.log(`${depth}\t${measure(plain, input)}\t${measure(memoized, input)}`);
+}
+for (const depth of [250, 500, 1000]) {
+    console.log(`${depth}\t-\t${measure(memoized, nested(depth))}`);
+}
+
+/**
+ * flat input runs on the call stack, deeply nested input mostly with `execute()`
+ */
+const item = '{"a":[1,2,3.5,"xyz",true,null],"b":{"c":"dddd","e":[{"f":1},{"g":2}]}}';
+const document = json();
+console.log("\njson\tms");
+console.log(`flat\t${measure(document, "[" + Array(20000).fill(item).join(",") + "]")}`);
+console.log(`deep\t${measure(document, "[".repeat(20000) + "]".repeat(20000))}`);
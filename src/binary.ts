@@ -0,0 +1,245 @@
+import { Parser, Source, ParseResult, ParseError, Location } from ".";
+import { Ok, Err } from "./result";
+
+/**
+ * source over binary data, the bytes are read in place without a copy
+ * every byte is one element of the input, the combinators like `many()` or `sepBy()` work on bytes as well,
+ * `any()` produces the byte as a character with the same code and `eof()` works too,
+ * character parsers like `char()`, `string()` or `regex()` have to be replaced by `byte()`, `u8()` or `bytes()`
+ * locations count bytes on a single line
+ */
+export class ByteSource extends Source {
+    private view: DataView;
+    constructor(readonly bytes: Uint8Array, pos = 0) {
+        super("", pos);
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+    next() {
+        const ch = this.at(this.pos);
+        this.pos += ch.length;
+        return ch;
+    }
+    at(pos: number) {
+        return pos >= 0 && pos < this.bytes.length ? String.fromCharCode(this.bytes[pos]) : "";
+    }
+    code_point(pos: number) {
+        return this.at(pos);
+    }
+    get length() {
+        return this.bytes.length;
+    }
+    slice(start: number, end = this.bytes.length) {
+        return latin1(this.bytes.subarray(Math.max(0, start), Math.max(0, end)));
+    }
+    matches(pos: number, str: string, ignore_case = false): boolean {
+        throw new TypeError("character parsers can't run over a ByteSource, use byte() or bytes()");
+    }
+    exec(pattern: RegExp, pos: number): RegExpExecArray | undefined {
+        throw new TypeError("character parsers can't run over a ByteSource, use byte() or bytes()");
+    }
+    location(pos = this.pos): Location {
+        return { offset: pos, line: 1, column: pos + 1 };
+    }
+    /**
+     * takes "n" bytes at the current position, undefined if there is not enough input
+     */
+    read(n: number): DataView | undefined {
+        if (this.pos + n > this.bytes.length) {
+            return undefined;
+        }
+        const view = new DataView(this.view.buffer, this.view.byteOffset + this.pos, n);
+        this.pos += n;
+        return view;
+    }
+}
+
+function latin1(bytes: Uint8Array): string {
+    const chunks: string[] = [];
+    for (let i = 0; i < bytes.length; i += 0x2000) {
+        chunks.push(String.fromCharCode(...bytes.subarray(i, i + 0x2000)));
+    }
+    return chunks.join("");
+}
+
+function byte_source(source: Source): ByteSource {
+    if (!(source instanceof ByteSource)) {
+        throw new TypeError("binary parsers require a ByteSource");
+    }
+    return source;
+}
+
+function fail<T>(pos: number, expected: string, message?: string): ParseResult<T> {
+    return new Err<T, ParseError>(new ParseError(pos, [expected], "EOF", message));
+}
+
+class Fixed<T> extends Parser<T> {
+    constructor(private size: number, private name: string, private decode: (view: DataView) => T) {
+        super();
+    }
+    parse(source: Source): ParseResult<T> {
+        const pos = source.pos;
+        if (this.size < 0) {
+            return new Err<T, ParseError>(new ParseError(pos, [], undefined, `negative length ${this.size}`));
+        }
+        const view = byte_source(source).read(this.size);
+        if (view === undefined) {
+            return fail<T>(pos, this.name);
+        }
+        return new Ok(this.decode(view));
+    }
+}
+
+/**
+ * matches only the byte "value" and produces it
+ */
+export function byte(value: number): Parser<number> {
+    return new Byte(value);
+}
+
+class Byte extends Parser<number> {
+    constructor(private value: number) {
+        super();
+    }
+    parse(source: Source): ParseResult<number> {
+        const bytes = byte_source(source);
+        const pos = source.pos;
+        if (pos < bytes.length && bytes.bytes[pos] === this.value) {
+            source.pos += 1;
+            return new Ok(this.value);
+        }
+        const found = pos < bytes.length ? `byte ${bytes.bytes[pos]}` : "EOF";
+        return new Err<number, ParseError>(new ParseError(pos, [`byte ${this.value}`], found));
+    }
+}
+
+export function u8(): Parser<number> {
+    return new Fixed(1, "u8", (view) => view.getUint8(0));
+}
+export function i8(): Parser<number> {
+    return new Fixed(1, "i8", (view) => view.getInt8(0));
+}
+export function u16le(): Parser<number> {
+    return new Fixed(2, "u16le", (view) => view.getUint16(0, true));
+}
+export function u16be(): Parser<number> {
+    return new Fixed(2, "u16be", (view) => view.getUint16(0, false));
+}
+export function i16le(): Parser<number> {
+    return new Fixed(2, "i16le", (view) => view.getInt16(0, true));
+}
+export function i16be(): Parser<number> {
+    return new Fixed(2, "i16be", (view) => view.getInt16(0, false));
+}
+export function u32le(): Parser<number> {
+    return new Fixed(4, "u32le", (view) => view.getUint32(0, true));
+}
+export function u32be(): Parser<number> {
+    return new Fixed(4, "u32be", (view) => view.getUint32(0, false));
+}
+export function i32le(): Parser<number> {
+    return new Fixed(4, "i32le", (view) => view.getInt32(0, true));
+}
+export function i32be(): Parser<number> {
+    return new Fixed(4, "i32be", (view) => view.getInt32(0, false));
+}
+export function f32le(): Parser<number> {
+    return new Fixed(4, "f32le", (view) => view.getFloat32(0, true));
+}
+export function f32be(): Parser<number> {
+    return new Fixed(4, "f32be", (view) => view.getFloat32(0, false));
+}
+export function f64le(): Parser<number> {
+    return new Fixed(8, "f64le", (view) => view.getFloat64(0, true));
+}
+export function f64be(): Parser<number> {
+    return new Fixed(8, "f64be", (view) => view.getFloat64(0, false));
+}
+
+/**
+ * "n" raw bytes, a negative "n" fails
+ */
+export function bytes(n: number): Parser<Uint8Array> {
+    return new Fixed(n, `${n} bytes`, (view) => new Uint8Array(view.buffer, view.byteOffset, n));
+}
+
+/**
+ * unsigned LEB128 variable length integer, fails if the value does not fit into a safe integer
+ * or if the encoding is longer than the 10 bytes of a 64 bit value
+ */
+export function varint(): Parser<number> {
+    return new VarInt();
+}
+
+/**
+ * zigzag encoded signed LEB128 variable length integer (as used by protocol buffers)
+ */
+export function svarint(): Parser<number> {
+    return varint().map((n) => n % 2 === 0 ? n / 2 : -(n + 1) / 2);
+}
+
+const MAX_VARINT_BYTES = 10;
+
+class VarInt extends Parser<number> {
+    parse(source: Source): ParseResult<number> {
+        const bytes = byte_source(source);
+        const pos = source.pos;
+        let value = 0;
+        for (let i = 0, scale = 1; ; i += 1, scale *= 0x80) {
+            if (i === MAX_VARINT_BYTES) {
+                return new Err<number, ParseError>(new ParseError(pos, [], undefined, `varint longer than ${MAX_VARINT_BYTES} bytes`, source.pos));
+            }
+            const byte = bytes.read(1);
+            if (byte === undefined) {
+                return fail<number>(pos, "varint");
+            }
+            const b = byte.getUint8(0);
+            value += (b & 0x7f) * scale;
+            if (value > Number.MAX_SAFE_INTEGER) {
+                return new Err<number, ParseError>(new ParseError(pos, [], undefined, "varint overflow", source.pos));
+            }
+            if ((b & 0x80) === 0) {
+                return new Ok(value);
+            }
+        }
+    }
+}
+
+/**
+ * block of bytes prefixed by its length, e.g. `lengthPrefixed(u16be())`
+ * with "content" the block is parsed by it and has to be consumed completely, a negative length fails
+ */
+export function lengthPrefixed(length: Parser<number>): Parser<Uint8Array>;
+export function lengthPrefixed<T>(length: Parser<number>, content: Parser<T>): Parser<T>;
+export function lengthPrefixed<T>(length: Parser<number>, content?: Parser<T>): Parser<Uint8Array | T> {
+    return new LengthPrefixed(length, content);
+}
+
+class LengthPrefixed<T> extends Parser<Uint8Array | T> {
+    constructor(private length: Parser<number>, private content?: Parser<T>) {
+        super();
+    }
+    parse(source: Source): ParseResult<Uint8Array | T> {
+        const pos = source.pos;
+        const length = this.length.parse(source);
+        if (!length.is_ok()) {
+            return new Err<Uint8Array | T, ParseError>(length.unwrap_err());
+        }
+        const start = source.pos;
+        if (length.unwrap() < 0) {
+            return new Err<Uint8Array | T, ParseError>(new ParseError(pos, [], undefined, `negative length ${length.unwrap()}`, start));
+        }
+        const block = bytes(length.unwrap()).parse(source);
+        if (!block.is_ok() || this.content === undefined) {
+            return block;
+        }
+        const inner = new ByteSource(block.unwrap());
+        const result = this.content.parse(inner);
+        if (!result.is_ok()) {
+            return new Err<Uint8Array | T, ParseError>(result.unwrap_err().shift(start));
+        }
+        if (inner.pos !== inner.bytes.length) {
+            return new Err<Uint8Array | T, ParseError>(new ParseError(start + inner.pos, ["end of block"], `${inner.bytes.length - inner.pos} more bytes`));
+        }
+        return result;
+    }
+}
@@ -0,0 +1,160 @@
+import { Parser, Source, SourceOptions, Tracer, ParseResult, Span } from ".";
+
+/**
+ * match of a rule named by `named()`, its children cover its span without gaps
+ */
+export interface CstNode {
+    type: "node";
+    rule: string;
+    span: Span;
+    children: Cst[];
+}
+
+/**
+ * input matched outside of nested rules: delimiters, whitespace, comments or anything else
+ */
+export interface CstToken {
+    type: "token";
+    text: string;
+    span: Span;
+}
+
+export type Cst = CstNode | CstToken;
+
+interface Frame {
+    rule: string;
+    start: number;
+    children: CstNode[];
+}
+
+/**
+ * tracer building the concrete syntax tree of the named rules, see `parseCst()`
+ * the results of `memo()` keep their nodes, a rule taken from the memo table is in the tree as well
+ */
+export class CstBuilder implements Tracer {
+    private frames: Frame[] = [{ rule: "", start: 0, children: [] }];
+    enter(rule: string, source: Source, kind: "rule" | "label") {
+        if (kind === "rule") {
+            this.frames.push({ rule, start: source.pos, children: [] });
+        }
+    }
+    exit(rule: string, source: Source, start: number, result: ParseResult<any>, kind: "rule" | "label") {
+        if (kind !== "rule") {
+            return;
+        }
+        const frame = this.frames.pop() as Frame;
+        if (!result.is_ok()) {
+            return;
+        }
+        const node = cst_node(source, frame.rule, frame.start, source.pos, frame.children);
+        const siblings = this.frames[this.frames.length - 1].children;
+        // nodes ending past the start of this one were backtracked without `Source.rewind()`, e.g. by a custom parser
+        while (siblings.length > 0 && siblings[siblings.length - 1].span.end.offset > frame.start) {
+            siblings.pop();
+        }
+        siblings.push(node);
+    }
+    /**
+     * forgets the nodes the parse went back over, e.g. of a failed alternative or of a lookahead
+     */
+    rewind(source: Source, pos: number) {
+        const siblings = this.frames[this.frames.length - 1].children;
+        while (siblings.length > 0 && siblings[siblings.length - 1].span.end.offset > pos) {
+            siblings.pop();
+        }
+    }
+    /**
+     * the nodes matched from "start" on, the memo table keeps them with the result
+     */
+    record(source: Source, start: number): CstNode[] {
+        const siblings = this.frames[this.frames.length - 1].children;
+        let first = siblings.length;
+        while (first > 0 && siblings[first - 1].span.start.offset >= start) {
+            first -= 1;
+        }
+        return siblings.slice(first);
+    }
+    /**
+     * adds the nodes recorded for a result taken from the memo table
+     */
+    replay(source: Source, start: number, trace: unknown) {
+        this.rewind(source, start);
+        this.frames[this.frames.length - 1].children.push(...trace as CstNode[]);
+    }
+    /**
+     * node of "rule" covering the whole input of "source" with the rules matched so far
+     */
+    tree(source: Source, rule = "root"): CstNode {
+        return cst_node(source, rule, 0, source.length, this.frames[0].children);
+    }
+}
+
+function cst_node(source: Source, rule: string, start: number, end: number, nodes: CstNode[]): CstNode {
+    const children: Cst[] = [];
+    let pos = start;
+    for (const node of nodes) {
+        if (node.span.end.offset > end) {
+            // backtracked after the last sibling
+            break;
+        }
+        if (node.span.start.offset > pos) {
+            children.push(cst_token(source, pos, node.span.start.offset));
+        }
+        children.push(node);
+        pos = node.span.end.offset;
+    }
+    if (end > pos) {
+        children.push(cst_token(source, pos, end));
+    }
+    return { type: "node", rule, span: source.span(start, end), children };
+}
+
+function cst_token(source: Source, start: number, end: number): CstToken {
+    return { type: "token", text: source.slice(start, end), span: source.span(start, end) };
+}
+
+export interface CstResult<T> {
+    /**
+     * the values are the same as without the tree
+     */
+    result: ParseResult<T>;
+    /**
+     * "root" node over the whole input, also when the parse failed
+     */
+    cst: CstNode;
+}
+
+/**
+ * parses "input" keeping the concrete syntax tree of the named rules, so that tools like formatters
+ * can see the text the values are made of, including skipped whitespace, comments and delimiters:
+ *
+ *     const { result, cst } = parseCst(json(), text);
+ *     cstText(cst) === text;
+ */
+export function parseCst<T>(parser: Parser<T>, input: string, options: SourceOptions = {}): CstResult<T> {
+    const builder = new CstBuilder();
+    const source = new Source(input, 0, { ...options, tracer: builder });
+    const result = parser.parse(source);
+    return { result, cst: builder.tree(source) };
+}
+
+/**
+ * source text of "cst", the input of `parseCst()` for the root node
+ */
+export function cstText(cst: Cst): string {
+    return cst.type === "token" ? cst.text : cst.children.map(cstText).join("");
+}
+
+/**
+ * nodes of "rule" in "cst" in document order, nested ones included
+ */
+export function cstFind(cst: Cst, rule: string): CstNode[] {
+    if (cst.type === "token") {
+        return [];
+    }
+    const found: CstNode[] = cst.rule === rule ? [cst] : [];
+    for (const child of cst.children) {
+        found.push(...cstFind(child, rule));
+    }
+    return found;
+}
@@ -0,0 +1,125 @@
+import { Parser } from ".";
+import { Expression, grammarRules } from "./introspect";
+
+export interface EbnfOptions {
+    /**
+     * name of the rule of the exported parser unless it is named, defaults to "start"
+     */
+    start?: string;
+}
+
+/**
+ * grammar of "parser" in the EBNF notation of the W3C (XML specification), one rule per line:
+ *
+ *     list ::= "[" (item ("," item)*)? "]"
+ *
+ * terminals without an EBNF equivalent, like regular expressions, Unicode classes or custom parsers,
+ * are written as `<description>`, lookaheads as comments
+ */
+export function ebnf(parser: Parser<any>, options: EbnfOptions = {}): string {
+    const rules = grammarRules(parser, options.start);
+    const width = Math.max(...rules.map((rule) => rule.name.length));
+    return rules.map((rule) => `${rule.name.padEnd(width)} ::= ${expression(rule.expression)}\n`).join("");
+}
+
+const enum Precedence {
+    Choice,
+    Except,
+    Sequence,
+    Postfix,
+    Primary,
+}
+
+/**
+ * "expr" in EBNF notation
+ */
+export function expression(expr: Expression): string {
+    return render(expr, Precedence.Choice);
+}
+
+function render(expr: Expression, context: Precedence): string {
+    const [text, precedence] = render_bare(expr);
+    return precedence < context ? `(${text})` : text;
+}
+
+function render_bare(expr: Expression): [string, Precedence] {
+    switch (expr.type) {
+        case "reference":
+            return [expr.name, Precedence.Primary];
+        case "literal":
+            return literal(expr.text);
+        case "charset":
+            return [charset(expr.chars), Precedence.Primary];
+        case "terminal":
+            return [`<${expr.label}>`, Precedence.Primary];
+        case "empty":
+            return ["()", Precedence.Primary];
+        case "sequence":
+            return [expr.items.map((item) => render(item, Precedence.Sequence)).join(" "), Precedence.Sequence];
+        case "choice":
+            return [expr.items.map((item) => render(item, Precedence.Except)).join(" | "), Precedence.Choice];
+        case "optional":
+            return [`${render(expr.item, Precedence.Primary)}?`, Precedence.Postfix];
+        case "many":
+            return [`${render(expr.item, Precedence.Primary)}*`, Precedence.Postfix];
+        case "many1": {
+            if (expr.separator === undefined) {
+                return [`${render(expr.item, Precedence.Primary)}+`, Precedence.Postfix];
+            }
+            const item = render(expr.item, Precedence.Sequence);
+            return [`${item} (${render(expr.separator, Precedence.Sequence)} ${item})*`, Precedence.Sequence];
+        }
+        case "except":
+            return [`${render(expr.item, Precedence.Postfix)} - ${render(expr.excluded, Precedence.Postfix)}`, Precedence.Except];
+        case "lookahead": {
+            // "*/" would end the comment early
+            const lookahead = expression(expr.item).replace(/\*\//g, "* /");
+            return [`/* ${expr.negative ? "!" : "&"}${lookahead} */`, Precedence.Primary];
+        }
+    }
+}
+
+function is_printable(ch: string) {
+    return ch === " " || /^[^\p{C}\p{Z}]$/u.test(ch);
+}
+
+function hex(ch: string) {
+    return `#x${(ch.codePointAt(0) as number).toString(16).toUpperCase()}`;
+}
+
+/**
+ * quoted text, a text with both kinds of quotes or unprintable characters becomes a sequence
+ */
+function literal(text: string): [string, Precedence] {
+    const parts: string[] = [];
+    let run = "";
+    const flush = () => {
+        if (run !== "") {
+            parts.push(run.includes("\"") ? `'${run}'` : `"${run}"`);
+            run = "";
+        }
+    };
+    for (const ch of Array.from(text)) {
+        if (!is_printable(ch)) {
+            flush();
+            parts.push(hex(ch));
+        } else if ((ch === "\"" && run.includes("'")) || (ch === "'" && run.includes("\""))) {
+            flush();
+            run = ch;
+        } else {
+            run += ch;
+        }
+    }
+    flush();
+    if (parts.length === 0) {
+        return ["\"\"", Precedence.Primary];
+    }
+    return [parts.join(" "), parts.length === 1 ? Precedence.Primary : Precedence.Sequence];
+}
+
+function charset(chars: string): string {
+    const set = Array.from(chars)
+        .map((ch) => is_printable(ch) && !"]^-#\\".includes(ch) ? ch : hex(ch))
+        .join("");
+    return `[${set}]`;
+}
@@ -0,0 +1,102 @@
+/**
+ * describes why and where a parser failed
+ * "expected" and "found" hold human readable token descriptions, e.g. `"a"`, `digit` or `EOF`
+ * "consumed" is the offset up to which the failed parser consumed input, it differs from "pos" only after `attempt()`
+ * "committed" errors come from `cut()` and are never backtracked
+ */
+export class ParseError {
+    constructor(
+        public readonly pos: number,
+        public readonly expected: string[] = [],
+        public readonly found?: string,
+        public readonly message?: string,
+        public readonly consumed = pos,
+        public readonly committed = false,
+    ) { }
+    /**
+     * whether the failed parser started at "start" consumed any input
+     * alternatives are only tried after failures that did not consume input
+     */
+    is_consumed(start: number) {
+        return this.committed || this.consumed > start;
+    }
+    /**
+     * combines errors of two failed alternatives
+     * the error that got further into the input wins, errors at the same position merge their expected sets
+     */
+    merge(other: ParseError): ParseError {
+        if (other.pos > this.pos) {
+            return other;
+        }
+        if (other.pos < this.pos) {
+            return this;
+        }
+        const expected = this.expected.slice();
+        for (const token of other.expected) {
+            if (!expected.includes(token)) {
+                expected.push(token);
+            }
+        }
+        return new ParseError(
+            this.pos,
+            expected,
+            this.found !== undefined ? this.found : other.found,
+            this.message !== undefined ? this.message : other.message,
+            Math.max(this.consumed, other.consumed),
+            this.committed || other.committed,
+        );
+    }
+    /**
+     * same error, but expecting "what" instead of the original expected set
+     */
+    relabel(what: string): ParseError {
+        return new ParseError(this.pos, [what], this.found, this.message, this.consumed, this.committed);
+    }
+    /**
+     * same error, but pretending no input was consumed past "start"
+     */
+    backtrack(start: number): ParseError {
+        return new ParseError(this.pos, this.expected, this.found, this.message, start, this.committed);
+    }
+    /**
+     * same error, but impossible to backtrack
+     */
+    commit(): ParseError {
+        return new ParseError(this.pos, this.expected, this.found, this.message, this.consumed, true);
+    }
+    /**
+     * same error, moved by "offset", e.g. from a nested source to the enclosing one
+     */
+    shift(offset: number): ParseError {
+        return new ParseError(this.pos + offset, this.expected, this.found, this.message, this.consumed + offset, this.committed);
+    }
+    toString() {
+        const parts: string[] = [];
+        if (this.message !== undefined) {
+            parts.push(this.message);
+        }
+        if (this.expected.length > 0) {
+            parts.push(`expected ${join_alternatives(this.expected)}`);
+            if (this.found !== undefined) {
+                parts.push(`got ${this.found}`);
+            }
+        } else if (this.found !== undefined) {
+            parts.push(`unexpected ${this.found}`);
+        }
+        return parts.join(", ");
+    }
+}
+
+/**
+ * human readable description of a piece of input, empty string stands for end of input
+ */
+export function describe_token(text: string): string {
+    return text === "" ? "EOF" : JSON.stringify(text);
+}
+
+function join_alternatives(expected: string[]): string {
+    if (expected.length === 1) {
+        return expected[0];
+    }
+    return `${expected.slice(0, -1).join(", ")} or ${expected[expected.length - 1]}`;
+}
@@ -0,0 +1,77 @@
+import { ParseError } from "./error";
+import { LineMap } from "./location";
+
+export interface FormatOptions {
+    /**
+     * name of the input shown next to the line and column
+     */
+    filename?: string;
+    /**
+     * number of lines shown before and after the failing line, defaults to 2
+     */
+    context?: number;
+    /**
+     * use ANSI escape sequences to color the output, defaults to false
+     */
+    color?: boolean;
+}
+
+const RESET = "\u001b[0m";
+const BOLD_RED = "\u001b[1;31m";
+const BLUE = "\u001b[34m";
+
+/**
+ * renders "error" as a code frame of "input":
+ *
+ *     error: expected "a" or "b", got "c"
+ *      --> input:1:5
+ *       |
+ *     1 | xyz c
+ *       |     ^
+ */
+export function formatError(error: ParseError, input: string, options: FormatOptions = {}): string {
+    const context = options.context === undefined ? 2 : options.context;
+    const paint = options.color
+        ? (code: string, text: string) => `${code}${text}${RESET}`
+        : (code: string, text: string) => text;
+
+    const lines = new LineMap(input);
+    const { line, column } = lines.location(error.pos);
+    const first = Math.max(1, line - context);
+    const last = Math.min(lines.lines, line + context);
+    const width = String(last).length;
+    const gutter = (label: string) => paint(BLUE, `${label.padStart(width)} |`);
+
+    const text = (n: number) => input.substring(lines.line_start(n), lines.line_end(n));
+    const failing = text(line);
+    const underline = Math.max(1, Math.min(found_length(error), failing.length - column + 1));
+    // keep tabs so that the marker lines up with the failing line
+    const indent = failing.substring(0, column - 1).replace(/[^\t]/g, " ");
+
+    const output = [
+        `${paint(BOLD_RED, "error")}: ${error}`,
+        `${" ".repeat(width)}${paint(BLUE, "-->")} ${options.filename || "input"}:${line}:${column}`,
+        gutter(""),
+    ];
+    for (let n = first; n <= last; ++n) {
+        output.push(`${gutter(String(n))} ${text(n)}`.replace(/\s+$/, ""));
+        if (n === line) {
+            output.push(`${gutter("")} ${indent}${paint(BOLD_RED, underline === 1 ? "^" : "~".repeat(underline))}`);
+        }
+    }
+    return output.join("\n");
+}
+
+/**
+ * "found" is produced by `describe_token`, quoted tokens are JSON strings
+ */
+function found_length(error: ParseError): number {
+    if (error.found === undefined || error.found.charAt(0) !== "\"") {
+        return 1;
+    }
+    try {
+        return (JSON.parse(error.found) as string).length;
+    } catch (e) {
+        return 1;
+    }
+}
@@ -0,0 +1,125 @@
+import { Parser, Source, SourceOptions, ParseResult, ParseError, MemoEntry } from ".";
+import { Err } from "./result";
+
+/**
+ * replacement of "deleted" characters at offset "start" by the text "inserted"
+ */
+export interface Edit {
+    start: number;
+    deleted: number;
+    inserted: string;
+}
+
+/**
+ * parse that can be brought up to date with `reparse()` after an edit of its input
+ */
+export interface IncrementalParse<T> {
+    parser: Parser<T>;
+    input: string;
+    options: SourceOptions;
+    /**
+     * the source holding the results remembered by `memo()`
+     */
+    source: Source;
+    result: ParseResult<T>;
+    /**
+     * number of results remembered by `memo()` taken over from the previous parse, 0 for a full parse
+     */
+    reused: number;
+}
+
+/**
+ * parses "input" keeping the results remembered by `memo()` for `reparse()`
+ */
+export function parseIncremental<T>(parser: Parser<T>, input: string, options: SourceOptions = {}): IncrementalParse<T> {
+    const source = new TrackedSource(input, 0, options);
+    const result = parser.parse(source);
+    return { parser, input, options, source, result, reused: 0 };
+}
+
+/**
+ * parses the input of "previous" changed by "edit", the result is the same as of a full parse of the new input:
+ *
+ *     let parse = parseIncremental(document, text);
+ *     parse = reparse(parse, { start: 10, deleted: 2, inserted: "xyz" });
+ *
+ * only the results remembered by `memo()` are reused, the more rules are memoized the less is parsed again:
+ * - results that examined nothing past the edit (lookahead of `peek()` and `not()` included) stay as they are
+ * - results that examined nothing before the end of the edit move by the length difference of the edit
+ * - the others are parsed again when they are needed
+ *
+ * a regular expression may examine any input after its position, so results built from `regex()` or `regexMatch()`
+ * are only reused after the edit, results using `span()` or `location()` only before the edit
+ * values must not depend on offsets in other ways, e.g. on `source.pos` in a custom parser or the index of `regexMatch()`
+ * the options of "previous" apply, `normalize` should be left out as the edit refers to offsets of the normalized input
+ */
+export function reparse<T>(previous: IncrementalParse<T>, edit: Edit): IncrementalParse<T> {
+    const { parser, input, options } = previous;
+    const end = edit.start + edit.deleted;
+    const delta = edit.inserted.length - edit.deleted;
+    const text = input.substring(0, edit.start) + edit.inserted + input.substring(end);
+    const source = new TrackedSource(text, 0, options);
+    let reused = 0;
+    for (const [memoized, pos, entry] of previous.source.memo_entries()) {
+        if (entry.read_from === undefined || entry.read_to === undefined) {
+            // planted seed of a parse that never finished
+            continue;
+        }
+        if (entry.read_to <= edit.start && entry.end <= edit.start && pos <= edit.start) {
+            source.memo_store(memoized, pos, entry);
+            reused += 1;
+        } else if (entry.read_from >= end && pos >= end) {
+            source.memo_store(memoized, pos + delta, shift_entry(entry, delta));
+            reused += 1;
+        }
+    }
+    const result = parser.parse(source);
+    return { parser, input: text, options, source, result, reused };
+}
+
+/**
+ * source recording the offsets its parsers examine, see `Source.touch()`
+ */
+class TrackedSource extends Source {
+    at(pos: number) {
+        this.touch(pos, pos + 1);
+        return super.at(pos);
+    }
+    code_point(pos: number) {
+        this.touch(pos, pos + 2);
+        return super.code_point(pos);
+    }
+    /**
+     * the length depends on all of the input
+     */
+    get length() {
+        const length = super.length;
+        this.touch(0, length + 1);
+        return length;
+    }
+    slice(start: number, end = super.length + 1) {
+        this.touch(start, end);
+        return super.slice(start, end);
+    }
+    exec(pattern: RegExp, pos: number) {
+        // the engine may look at any input past "pos", before it with lookbehind or `\b`
+        this.touch(/\(\?<[=!]/.test(pattern.source) ? 0 : pos - 1, super.length + 1);
+        return super.exec(pattern, pos);
+    }
+    location(pos = this.pos) {
+        // the line depends on the line breaks before "pos", "\r\n" on the character at "pos" too
+        this.touch(0, pos + 1);
+        return super.location(pos);
+    }
+}
+
+function shift_entry<T>(entry: MemoEntry<T>, delta: number): MemoEntry<T> {
+    const result = entry.result.is_ok() ? entry.result : new Err<T, ParseError>(entry.result.unwrap_err().shift(delta));
+    return {
+        result,
+        end: entry.end + delta,
+        diagnostics: entry.diagnostics.map((error) => error.shift(delta)),
+        read_from: entry.read_from === undefined ? undefined : entry.read_from + delta,
+        read_to: entry.read_to === undefined ? undefined : entry.read_to + delta,
+    };
+}
@@ -1,14 +1,222 @@
 import { Ok, Err, Result } from "./result";
+import { Location, Span, Spanned, LineMap } from "./location";
+import { ParseError, describe_token } from "./error";
+
+export { Location, Span, Spanned, ParseError };
+export { formatError, FormatOptions } from "./format";
+
+export interface MemoEntry<T> {
+    result: ParseResult<T>;
+    end: number;
+    /**
+     * errors recovered while producing "result", reported again on every hit
+     */
+    diagnostics: ParseError[];
+    /**
+     * only present on the failing seed planted by `memo()` before the first attempt,
+     * turns true once the seed is looked up, i.e. when the parser is left recursive
+     */
+    left_recursive?: boolean;
+    /**
+     * offsets of the input examined while producing "result", from "read_from" up to "read_to" (exclusive),
+     * absent on the seed
+     */
+    read_from?: number;
+    read_to?: number;
+    /**
+     * what the tracer of the source recorded while producing "result", see `Tracer.record()`
+     */
+    trace?: unknown;
+}
+
+export interface SourceOptions {
+    /**
+     * `next()` and `any()` step over whole code points instead of UTF-16 code units
+     */
+    unicode?: boolean;
+    /**
+     * input is normalized before parsing, offsets refer to the normalized input
+     */
+    normalize?: "NFC" | "NFD" | "NFKC" | "NFKD";
+    /**
+     * receives the events of the parsers labelled by `named()` and `expect()`, see `Trace`
+     */
+    tracer?: Tracer;
+    /**
+     * most recursive parsers (`lazy()`, `gen()` and `chain()`) nested in each other at a time, a deeper parse
+     * fails with an error instead, defaults to no limit besides the available memory
+     */
+    maxDepth?: number;
+}
+
+/**
+ * listener of the labelled parsers, `exit` follows every `enter` of the same "rule", with a failure
+ * when an exception interrupts the parse, e.g. the end of the buffered input of a `StreamParser`
+ * "kind" tells a rule of `named()` from a label of `expect()`
+ */
+export interface Tracer {
+    enter(rule: string, source: Source, kind: "rule" | "label"): void;
+    exit(rule: string, source: Source, start: number, result: ParseResult<any>, kind: "rule" | "label"): void;
+    /**
+     * the parse went back to "pos" to try another way, e.g. the next alternative of `or()` or after `peek()`
+     */
+    rewind?(source: Source, pos: number): void;
+    /**
+     * what the tracer saw of the parse from "start" up to the current position, `memo()` keeps it with the result
+     */
+    record?(source: Source, start: number): unknown;
+    /**
+     * a result of `memo()` was taken from "start" up to the current position instead of parsing the input again,
+     * "trace" is what `record()` returned when the result was parsed
+     */
+    replay?(source: Source, start: number, trace: unknown): void;
+}
 
 export class Source {
-    constructor(private input: string, public pos: number) { }
-    next() {
-        const ch = this.input.charAt(this.pos++);
-        if (ch === "") {
-            this.pos--;
+    private line_map?: LineMap;
+    protected unicode: boolean;
+    private memo_table?: Map<Parser<any>, Map<number, MemoEntry<any>>>;
+    /**
+     * errors recovered by `recover()`, the parse continued past them
+     */
+    readonly diagnostics: ParseError[] = [];
+    readonly tracer?: Tracer;
+    /**
+     * offsets examined by the parsers so far, from "read_from" up to "read_to" (exclusive), see `touch()`
+     */
+    read_from = Infinity;
+    read_to = -Infinity;
+    readonly max_depth: number;
+    /**
+     * recursive parsers currently running, see `SourceOptions.maxDepth`
+     */
+    depth = 0;
+    constructor(private input: string, public pos: number, options: SourceOptions = {}) {
+        if (options.normalize !== undefined) {
+            this.input = input.normalize(options.normalize);
         }
+        this.unicode = options.unicode === true;
+        this.tracer = options.tracer;
+        this.max_depth = options.maxDepth === undefined ? Infinity : options.maxDepth;
+    }
+    next() {
+        const ch = this.unicode ? this.code_point(this.pos) : this.at(this.pos);
+        this.pos += ch.length;
         return ch;
     }
+    /**
+     * character at "pos" without advancing, empty string at the end of input
+     */
+    at(pos: number) {
+        return this.input.charAt(pos);
+    }
+    /**
+     * whole code point at "pos" (one or two UTF-16 code units) without advancing, empty string at the end of input
+     */
+    code_point(pos: number) {
+        const code = this.input.codePointAt(pos);
+        return code === undefined ? "" : String.fromCodePoint(code);
+    }
+    get length() {
+        return this.input.length;
+    }
+    /**
+     * part of the input between "start" and "end" offsets, up to the end of input by default
+     */
+    slice(start: number, end = this.input.length + 1) {
+        return this.input.substring(start, end);
+    }
+    /**
+     * whether the input at "pos" starts with "str"
+     */
+    matches(pos: number, str: string, ignore_case = false) {
+        const text = this.slice(pos, pos + str.length);
+        return ignore_case ? text.toLowerCase() === str.toLowerCase() : text === str;
+    }
+    /**
+     * matches sticky "pattern" at "pos"
+     */
+    exec(pattern: RegExp, pos: number): RegExpExecArray | undefined {
+        pattern.lastIndex = pos;
+        return pattern.exec(this.input) || undefined;
+    }
+    /**
+     * line and column of "pos" (defaults to the current position)
+     */
+    location(pos = this.pos): Location {
+        if (this.line_map === undefined) {
+            this.line_map = new LineMap(this.input);
+        }
+        return this.line_map.location(pos);
+    }
+    span(start: number, end = this.pos): Span {
+        return { start: this.location(start), end: this.location(end) };
+    }
+    /**
+     * records that the input from "from" up to "to" (exclusive) was examined, see `reparse()`
+     * only the sources of `parseIncremental()` and `reparse()` record the reads of the methods above
+     */
+    touch(from: number, to: number) {
+        if (from < this.read_from) {
+            this.read_from = from;
+        }
+        if (to > this.read_to) {
+            this.read_to = to;
+        }
+    }
+    report(error: ParseError) {
+        this.diagnostics.push(error);
+    }
+    /**
+     * backtracks to "pos", forgetting errors reported after the first "reported" ones
+     */
+    rewind(pos: number, reported: number) {
+        if (pos < this.pos && this.tracer !== undefined && this.tracer.rewind !== undefined) {
+            this.tracer.rewind(this, pos);
+        }
+        this.pos = pos;
+        this.diagnostics.length = reported;
+    }
+    /**
+     * result of "parser" at "pos" remembered by `memo()`
+     */
+    memo_lookup<T>(parser: Parser<T>, pos: number): MemoEntry<T> | undefined {
+        if (this.memo_table === undefined) {
+            return undefined;
+        }
+        const entries = this.memo_table.get(parser);
+        return entries === undefined ? undefined : entries.get(pos);
+    }
+    memo_store<T>(parser: Parser<T>, pos: number, entry: MemoEntry<T>) {
+        if (this.memo_table === undefined) {
+            this.memo_table = new Map();
+        }
+        let entries = this.memo_table.get(parser);
+        if (entries === undefined) {
+            entries = new Map();
+            this.memo_table.set(parser, entries);
+        }
+        entries.set(pos, entry);
+    }
+    memo_delete<T>(parser: Parser<T>, pos: number) {
+        const entries = this.memo_table === undefined ? undefined : this.memo_table.get(parser);
+        if (entries !== undefined) {
+            entries.delete(pos);
+        }
+    }
+    /**
+     * every result remembered by `memo()` with its parser and position
+     */
+    *memo_entries(): IterableIterator<[Parser<any>, number, MemoEntry<any>]> {
+        if (this.memo_table === undefined) {
+            return;
+        }
+        for (const [parser, entries] of this.memo_table) {
+            for (const [pos, entry] of entries) {
+                yield [parser, pos, entry];
+            }
+        }
+    }
 }
 
 // export class ParseResultOk<T> {
@@ -21,14 +229,24 @@ export class Source {
 //     constructor(public source: Source, public reason?: string) { }
 // }
 
-export type ParseError = [Source, string | void];
 export type ParseResult<T> = Result<T, ParseError>;
 
-function success<T>(value: T): Ok<T, ParseError> {
+/**
+ * parse of a combinator run by `execute()`, yields the nested parsers and gets back their results, see `Parser.steps()`
+ */
+export type Steps<T> = Generator<Parser<any>, ParseResult<T>, ParseResult<any>>;
+
+/**
+ * successful result of a parser, see `custom()`
+ */
+export function success<T>(value: T): Ok<T, ParseError> {
     return new Ok<T, ParseError>(value);
 }
-function fail<T>(source: Source, err?: string): Err<T, ParseError> {
-    return new Err<T, ParseError>([source, err]);
+/**
+ * failure at "pos", "found" defaults to the character at "pos"
+ */
+export function fail<T>(source: Source, pos: number, expected?: string, found = describe_token(source.code_point(pos))): Err<T, ParseError> {
+    return new Err<T, ParseError>(new ParseError(pos, expected === undefined ? [] : [expected], found));
 }
 function cast_err<T>(err: Err<any, ParseError>): Err<T, ParseError> {
     return err;
@@ -36,6 +254,315 @@ function cast_err<T>(err: Err<any, ParseError>): Err<T, ParseError> {
 
 
 
+/**
+ * kinds of parser nodes reported by `Parser.describe()`:
+ * - "rule": a parser named by `named()`, "label" is the name
+ * - "literal": `char()`, `string()`, "label" is the matched text
+ * - "charset": `oneOf()`, "label" are the characters
+ * - "terminal": other primitive parsers like `regex()` or `letter()`, "label" describes the input they match
+ * - "empty": `always()`, matches without consuming input
+ * - "sequence", "choice", "optional", "many", "many1": the children in order
+ * - "repeat": `times()`, "label" is the count
+ * - "chainl1", "chainr1": the operand and the operator
+ * - "lookahead", "not": `peek()` and `not()`
+ * - "label": `expect()`, "label" is the expected token
+ * - "transform": parsers that match what their only child matches, "label" is the combinator, e.g. "map" or "memo"
+ * - "custom": parsers built from code, e.g. `custom()`, `chain()` or `gen()`, their input can't be described
+ */
+export type ParserKind =
+    "rule" | "literal" | "charset" | "terminal" | "empty" | "sequence" | "choice" | "optional" | "many" | "many1" |
+    "repeat" | "chainl1" | "chainr1" | "lookahead" | "not" | "label" | "transform" | "custom";
+
+/**
+ * node of the parser graph, see `Parser.describe()`
+ */
+export interface ParserNode {
+    kind: ParserKind;
+    label?: string;
+    children: Parser<any>[];
+}
+
+function transform(label: string, parser: Parser<any>): ParserNode {
+    return { kind: "transform", label, children: [parser] };
+}
+
+/**
+ * takes the result of `memo()` remembered at the current position of "source"
+ */
+function memo_hit<T>(found: MemoEntry<T>, source: Source): ParseResult<T> {
+    const pos = source.pos;
+    if (found.left_recursive === false) {
+        found.left_recursive = true;
+    }
+    source.pos = found.end;
+    source.diagnostics.push(...found.diagnostics);
+    if (found.read_from !== undefined && found.read_to !== undefined) {
+        source.touch(found.read_from, found.read_to);
+    }
+    if (found.trace !== undefined && source.tracer !== undefined && source.tracer.replay !== undefined) {
+        source.tracer.replay(source, pos, found.trace);
+    }
+    return found.result;
+}
+
+/**
+ * parses "parser" at the current position of "source" for `memo()`, produces the entry stored for the position
+ * with the input it examined, a parse interrupted by an exception leaves no entry behind
+ */
+function* memo_parse<T>(parser: Parser<T>, memoized: Parser<T>, source: Source): Generator<Parser<any>, MemoEntry<T>, ParseResult<any>> {
+    const pos = source.pos;
+    // the entry records what its own parse examined, the enclosing parse examined that too
+    const outer_from = source.read_from;
+    const outer_to = source.read_to;
+    source.read_from = Infinity;
+    source.read_to = -Infinity;
+    let entry: MemoEntry<T> | undefined;
+    try {
+        entry = yield* grow_seed(parser, memoized, source);
+        entry.read_from = source.read_from;
+        entry.read_to = source.read_to;
+        return entry;
+    } finally {
+        if (entry === undefined) {
+            // a later parse of the source must not find the seed, e.g. after `maxDepth` failed the parse
+            source.memo_delete(memoized, pos);
+        }
+        source.touch(outer_from, outer_to);
+    }
+}
+
+/**
+ * parses "parser" at the current position of "source" growing the seed of left recursion
+ */
+function* grow_seed<T>(parser: Parser<T>, memoized: Parser<T>, source: Source): Generator<Parser<any>, MemoEntry<T>, ParseResult<any>> {
+    const pos = source.pos;
+    const reported = source.diagnostics.length;
+    const seed: MemoEntry<T> = { result: new Err(new ParseError(pos)), end: pos, diagnostics: [], left_recursive: false };
+    source.memo_store(memoized, pos, seed);
+    let entry = memo_entry<T>(yield parser, source, pos, reported);
+    source.memo_store(memoized, pos, entry);
+    if (!seed.left_recursive || !entry.result.is_ok()) {
+        return entry;
+    }
+    for (; ;) {
+        source.rewind(pos, reported);
+        const grown = yield parser;
+        if (!grown.is_ok() && grown.unwrap_err().committed) {
+            // a failure past `cut()` fails the rule instead of ending the growth
+            entry = memo_entry(grown, source, pos, reported);
+            source.memo_store(memoized, pos, entry);
+            return entry;
+        }
+        if (!grown.is_ok() || source.pos <= entry.end) {
+            // the previous result stands as if it was taken from the memo table
+            source.rewind(pos, reported);
+            memo_hit(entry, source);
+            return entry;
+        }
+        entry = memo_entry(grown, source, pos, reported);
+        source.memo_store(memoized, pos, entry);
+    }
+}
+
+/**
+ * entry of "result" parsed from "pos" up to the current position, after the first "reported" errors
+ */
+function memo_entry<T>(result: ParseResult<T>, source: Source, pos: number, reported: number): MemoEntry<T> {
+    const entry: MemoEntry<T> = { result, end: source.pos, diagnostics: source.diagnostics.slice(reported) };
+    if (source.tracer !== undefined && source.tracer.record !== undefined) {
+        entry.trace = source.tracer.record(source, pos);
+    }
+    return entry;
+}
+
+function* traced<T>(rule: string, kind: "rule" | "label", parser: Parser<T>, source: Source): Steps<T> {
+    const tracer = source.tracer as Tracer;
+    const start = source.pos;
+    tracer.enter(rule, source, kind);
+    let result: ParseResult<T> | undefined;
+    try {
+        result = yield parser;
+        return result;
+    } finally {
+        // an exception interrupting the parse fails the rule as well
+        tracer.exit(rule, source, start, result || new Err(new ParseError(source.pos, [], undefined, "parse interrupted")), kind);
+    }
+}
+
+/**
+ * unwinds all the running parses of a source that got deeper than its `max_depth`
+ */
+class DepthExceeded {
+    constructor(readonly error: ParseError) { }
+}
+
+/**
+ * nesting of recursive combinators from which they run with `execute()` instead of calling each other,
+ * low enough to leave room on the call stack for the combinators between them and for parsers like `custom()`
+ */
+const STACK_DEPTH = 100;
+
+/**
+ * one more recursive combinator running, fails the whole parse beyond the `maxDepth` of the source:
+ * the error unwinds to the outermost of them and is committed there, so that no alternative is tried either
+ */
+function descend(source: Source) {
+    if (source.depth >= source.max_depth) {
+        const error = new ParseError(source.pos, [], undefined, `nesting deeper than ${source.max_depth}`);
+        throw new DepthExceeded(error.commit());
+    }
+    source.depth += 1;
+}
+
+/**
+ * runs the `direct()` parse of a recursive combinator, which calls the nested parsers on the call stack,
+ * from `STACK_DEPTH` of them nested in each other the parse continues with `execute()`
+ */
+function recurse<T>(parser: Recursive<T>, source: Source): ParseResult<T> {
+    const base = source.depth;
+    if (base >= STACK_DEPTH) {
+        return execute(parser, source);
+    }
+    try {
+        descend(source);
+        return parser.direct(source);
+    } catch (e) {
+        if (e instanceof DepthExceeded && base === 0) {
+            return new Err(e.error);
+        }
+        throw e;
+    } finally {
+        source.depth = base;
+    }
+}
+
+/**
+ * parses "steps" calling the parsers it yields directly, e.g. the helpers of the combinators in their `parse()`
+ */
+function drive<T>(steps: Generator<Parser<any>, T, ParseResult<any>>, source: Source): T {
+    let step = steps.next();
+    try {
+        while (!step.done) {
+            step = steps.next(step.value.parse(source));
+        }
+        return step.value;
+    } finally {
+        if (!step.done) {
+            close(steps);
+        }
+    }
+}
+
+/**
+ * runs the "finally" blocks of a generator stopped before its end, it ends without a value
+ */
+function close<T>(steps: Generator<Parser<any>, T, ParseResult<any>>) {
+    const stopped: Generator<Parser<any>, T | undefined, ParseResult<any>> = steps;
+    stopped.return(undefined);
+}
+
+/**
+ * runs "parser" on a stack of its own: the combinators yield their nested parsers instead of calling them,
+ * so the nesting of the input is limited by the memory and not by the call stack
+ * parsers without `steps()` are called directly, a combinator they run starts another stack
+ * exceeding the `maxDepth` of the source fails the whole parse
+ */
+export function execute<T>(parser: Parser<T>, source: Source): ParseResult<T> {
+    if (parser.steps === undefined) {
+        return parser.parse(source);
+    }
+    const execution = new Execution(parser, source);
+    try {
+        return execution.resume();
+    } finally {
+        execution.close();
+    }
+}
+
+/**
+ * stack of the combinators of a parse run by `execute()`
+ * an exception thrown by a parser without `steps()` suspends the parse: the stack is kept and `resume()`
+ * calls that parser again from where it started, e.g. once a `StreamParser` got more input
+ */
+export class Execution<T> {
+    private stack: Steps<any>[] = [];
+    /**
+     * depth of the source when each frame started
+     */
+    private depths: number[] = [];
+    private base: number;
+    private step: IteratorResult<Parser<any>, ParseResult<any>>;
+    /**
+     * whether the last exception left the parse suspended, otherwise the parse can't go on and has to be closed
+     */
+    suspended = false;
+    constructor(parser: Parser<T>, private source: Source) {
+        this.base = source.depth;
+        this.step = { done: false, value: parser };
+    }
+    resume(): ParseResult<T> {
+        this.suspended = false;
+        try {
+            return this.run();
+        } catch (e) {
+            if (e instanceof DepthExceeded && this.base === 0) {
+                this.close();
+                return new Err(e.error);
+            }
+            throw e;
+        }
+    }
+    /**
+     * runs the "finally" blocks of the frames left, innermost first
+     */
+    close() {
+        for (let i = this.stack.length - 1; i >= 0; i -= 1) {
+            close(this.stack[i]);
+        }
+        this.stack.length = 0;
+        this.depths.length = 0;
+        this.source.depth = this.base;
+    }
+    private run(): ParseResult<T> {
+        const { source, stack, depths } = this;
+        let step = this.step;
+        for (; ;) {
+            if (step.done) {
+                stack.pop();
+                source.depth = depths.pop() as number;
+                if (stack.length === 0) {
+                    return step.value;
+                }
+                step = stack[stack.length - 1].next(step.value);
+                continue;
+            }
+            const nested = step.value;
+            if (nested.steps !== undefined) {
+                depths.push(source.depth);
+                const frame = nested.steps(source);
+                stack.push(frame);
+                step = frame.next();
+                continue;
+            }
+            const pos = source.pos;
+            const reported = source.diagnostics.length;
+            let result: ParseResult<any>;
+            try {
+                result = nested.parse(source);
+            } catch (e) {
+                source.rewind(pos, reported);
+                this.step = step;
+                this.suspended = true;
+                throw e;
+            }
+            if (stack.length === 0) {
+                return result;
+            }
+            step = stack[stack.length - 1].next(result);
+        }
+    }
+}
+
 function is_skip(parser: Parser<any> | Skip): parser is Skip {
     // TODO: is this boolean thing faster then instanceof?
     // return parser instanceof Skip;
@@ -47,26 +574,19 @@ export abstract class Parser<T> {
      * method used for advancing the parser
      */
     abstract parse(source: Source): ParseResult<T>;
+    /**
+     * implemented by the combinators next to `parse()`, runs the same parse with `execute()` where the nesting is deep
+     */
+    steps?(source: Source): Steps<T>;
     /**
      * matches "this" or "other", both must produce value of the same type
+     * "other" is only tried if "this" failed without consuming any input (see `attempt()`)
+     * if both fail, their errors are merged
      */
     or(this: Skip, other: Skip): Skip;
     or(this: Parser<T>, other: Parser<T>): Parser<T>;
     or(this: Parser<T> | Skip, other: Parser<T> | Skip): Parser<T> | Skip {
-        const parser = this;
-        return Object.create(this, {
-            parse: {
-                value: function parse_or(source: Source) {
-                    const pos = source.pos;
-                    const self_result = parser.parse(source);
-                    if (self_result.is_ok()) {
-                        return self_result;
-                    }
-                    source.pos = pos;
-                    return other.parse(source);
-                }
-            }
-        });
+        return wrap(this, new Or<T>(this as Parser<T>, other as Parser<T>));
     }
     /**
      * "this" followed by "next", both matched values are returned in a tuple
@@ -80,7 +600,7 @@ export abstract class Parser<T> {
         const self = this;
         if (is_skip(next)) {
             if (is_skip(self)) {
-                return new SkipSeq(self, next);
+                return new Skipped(new Seq([self, next]));
             }
             return new FollowedBy<T>(self, next);
         } else if (is_skip(self)) {
@@ -90,13 +610,14 @@ export abstract class Parser<T> {
     }
     /**
      * zero or more occurrences of "this"
+     * fails if "this" fails after consuming input
      */
     many(this: Skip): Skip;
     many(this: Parser<T>): Parser<T[]>;
     many(this: Parser<T> | Skip): Parser<T[]> | Skip {
         const self = this;
         if (is_skip(self)) {
-            return new SkipMany(self);
+            return new Skipped(new Many(self));
         }
         return new Many(self);
     }
@@ -110,7 +631,7 @@ export abstract class Parser<T> {
         if (is_skip(self)) {
             return self.then(self.many());
         }
-        return new Many1(self);
+        return new Many(self, 1);
     }
     /**
      * if "this" succeeds, map the produced value through "mapper" function
@@ -122,7 +643,24 @@ export abstract class Parser<T> {
         if (is_skip(self)) {
             return new MapSkip(self, mapper);
         }
-        return new Map(self, mapper);
+        return new MapParser(self, mapper);
+    }
+    /**
+     * if "this" succeeds, continue with the parser "next" builds from the produced value,
+     * e.g. `u8().chain(length => any().times(length))`
+     */
+    chain<U>(this: Skip, next: () => Parser<U>): Parser<U>;
+    chain<U>(this: Parser<T>, next: (value: T) => Parser<U>): Parser<U>;
+    chain<U>(this: Parser<T> | Skip, next: (value: T) => Parser<U>): Parser<U> {
+        return new Chain(this as Parser<T>, next);
+    }
+    /**
+     * alias for `chain()`
+     */
+    flatMap<U>(this: Skip, next: () => Parser<U>): Parser<U>;
+    flatMap<U>(this: Parser<T>, next: (value: T) => Parser<U>): Parser<U>;
+    flatMap<U>(this: Parser<T> | Skip, next: (value: T) => Parser<U>): Parser<U> {
+        return new Chain(this as Parser<T>, next);
     }
     validate(validator: (value: T) => ParseResult<T>): Parser<T> {
         return new Validate(this, validator);
@@ -131,23 +669,12 @@ export abstract class Parser<T> {
         return this.map(() => value);
     }
     /**
-     * if "this" fails, changes the error message to: `expecting "${what}"`
+     * if "this" fails without consuming any input, the error reports "what" as the expected token
      */
     expect(this: Skip, what: string): Skip;
     expect(this: Parser<T>, what: string): Parser<T>;
     expect(this: Parser<T> | Skip, what: string): Parser<T> | Skip {
-        const parser = this;
-        return Object.create(this, {
-            parse: {
-                value: function parse_expect(source: Source) {
-                    const result = parser.parse(source);
-                    if (result.is_ok()) {
-                        return result;
-                    }
-                    return new Err([source, `expecting ${this.what}`]);
-                }
-            }
-        });
+        return wrap(this, new Traced(this as Parser<T>, what, "label"));
     }
     /**
      * matches "this" zero or more times until "until" is matched, "until" does not consume any input
@@ -180,7 +707,7 @@ export abstract class Parser<T> {
     followedBy(this: Parser<T> | Skip, next: Parser<any>): Parser<T> | Skip {
         const self = this;
         if (is_skip(self)) {
-            return new SkipSeq(self, next);
+            return new Skipped(new Seq([self, next]));
         }
         return new FollowedBy(self, next);
     }
@@ -191,7 +718,7 @@ export abstract class Parser<T> {
     next<U>(next: Parser<U>): Parser<U>;
     next<U>(next: Parser<U> | Skip): Parser<U> | Skip {
         if (is_skip(next)) {
-            return new SkipSeq(this, next);
+            return new Skipped(new Seq([this, next]));
         }
         return new Next(this, next);
     }
@@ -203,7 +730,7 @@ export abstract class Parser<T> {
     times(this: Parser<T> | Skip, times: number): Parser<T[]> | Skip {
         const self = this;
         if (is_skip(self)) {
-            return new TimesSkip(self, times);
+            return new Skipped(new Times(self, times));
         }
         return new Times(self, times);
     }
@@ -215,28 +742,57 @@ export abstract class Parser<T> {
     peek(this: Parser<T> | Skip): Parser<T> | Skip {
         const self = this;
         if (is_skip(self)) {
-            return new PeekSkip(self);
+            return new Skipped(new Peek(self));
         }
         return new Peek(self);
     }
 
+    /**
+     * matches "this" if possible, produces undefined if "this" fails without consuming any input
+     */
     optional(this: Skip): Skip;
     optional(this: Parser<T>): Parser<T | undefined>;
     optional(this: Parser<T> | Skip): Parser<T | undefined> | Skip {
-        const parser = this;
-        return Object.create(this, {
-            parse: {
-                value: function parse_optional(source: Source): ParseResult<T | undefined> {
-                    const pos = source.pos;
-                    const result = parser.parse(source);
-                    if (result.is_ok()) {
-                        return result;
-                    }
-                    source.pos = pos;
-                    return new Ok(undefined);
-                }
-            }
-        });
+        return wrap(this, new Optional(this as Parser<T>));
+    }
+    /**
+     * if "this" fails, pretend it did not consume any input, so that alternatives can be tried
+     */
+    attempt(this: Skip): Skip;
+    attempt(this: Parser<T>): Parser<T>;
+    attempt(this: Parser<T> | Skip): Parser<T> | Skip {
+        return wrap(this, new Attempt(this as Parser<T>));
+    }
+    /**
+     * remembers the result of "this" for every position of the source (packrat parsing)
+     * repeated attempts at the same position, e.g. from backtracking `or`, return the cached result
+     *
+     * memoized parsers may be left recursive (`expr = expr "+" term / term`), the recursion is resolved
+     * by growing the seed: the first left recursive call fails, then "this" is reparsed with the previous
+     * result cached for as long as it consumes more input
+     * for indirect left recursion only one rule of the cycle should be memoized
+     */
+    memo(this: Skip): Skip;
+    memo(this: Parser<T>): Parser<T>;
+    memo(this: Parser<T> | Skip): Parser<T> | Skip {
+        return wrap(this, new Memo(this as Parser<T>));
+    }
+    /**
+     * alias of `attempt()`
+     */
+    backtrack(this: Skip): Skip;
+    backtrack(this: Parser<T>): Parser<T>;
+    backtrack(this: Parser<T> | Skip): Parser<T> | Skip {
+        return (this as Parser<T>).attempt();
+    }
+    /**
+     * commits to "this": its failures are never backtracked, not even by `attempt()`
+     * e.g. `string("if").then(condition.cut())` reports a broken condition instead of trying other statements
+     */
+    cut(this: Skip): Skip;
+    cut(this: Parser<T>): Parser<T>;
+    cut(this: Parser<T> | Skip): Parser<T> | Skip {
+        return wrap(this, new Cut(this as Parser<T>));
     }
 
     sepBy(this: Skip, separator: Parser<any>): Skip;
@@ -264,6 +820,28 @@ export abstract class Parser<T> {
                 return tail;
             });
     }
+    /**
+     * one or more "this" separated by "op", values are combined left to right by the function "op" produces
+     * e.g. `decimal().chainl1(char("-").retn((a, b) => a - b))` parses "7-2-1" as (7-2)-1
+     */
+    chainl1<U>(this: Parser<U>, op: Parser<(left: U, right: U) => U>): Parser<U> {
+        return new ChainL1(this, op);
+    }
+    /**
+     * one or more "this" separated by "op", values are combined right to left by the function "op" produces
+     * e.g. `decimal().chainr1(char("^").retn(Math.pow))` parses "2^3^2" as 2^(3^2)
+     */
+    chainr1<U>(this: Parser<U>, op: Parser<(left: U, right: U) => U>): Parser<U> {
+        return new ChainR1(this, op);
+    }
+    /**
+     * like `sepBy`, but an element that fails is reported and skipped up to the next "separator" or "end"
+     * "end" closes the list and is not consumed, e.g. `value.sepByRecover(char(","), char("]"), null_value)`
+     */
+    sepByRecover<U>(this: Parser<U>, separator: Parser<any>, end: Parser<any>, fallback: U): Parser<U[]> {
+        const element = recover(this, separator.skip().or(end.skip()), fallback);
+        return end.skip().peek().map((): U[] => []).or(element.sepBy1(separator));
+    }
     /**
      * only applicable to Parser<string[]>
      */
@@ -275,11 +853,38 @@ export abstract class Parser<T> {
      * succeeds if "this" fails, does not consume output
      */
     not(): Skip {
-        return new Not(this);
+        return new Skipped(new Not(this));
     }
     skip(): Skip {
         return new Skip(this);
     }
+    /**
+     * produces the matched value together with the span of input it was matched from
+     */
+    spanned(): Parser<Spanned<T>> {
+        return new SpannedParser(this);
+    }
+    /**
+     * kind of "this" and the parsers it is built from, e.g. to export the grammar, see `ebnf()` and `railroad()`
+     */
+    describe(): ParserNode {
+        return { kind: "custom", children: [] };
+    }
+    /**
+     * names "this" as a rule of the grammar, exporters define the rule once and refer to it by "name"
+     * and the tracer of the source gets its events, parsing is not affected
+     */
+    named(this: Skip, name: string): Skip;
+    named(this: Parser<T>, name: string): Parser<T>;
+    named(this: Parser<T> | Skip, name: string): Parser<T> | Skip {
+        return wrap(this, new Traced(this as Parser<T>, name, "rule"));
+    }
+    /**
+     * `yield* parser` inside of `gen()` runs the parser and evaluates to its value
+     */
+    *[Symbol.iterator](): Generator<Parser<T>, T, any> {
+        return yield this;
+    }
 }
 
 export class Skip extends Parser<undefined> {
@@ -287,62 +892,205 @@ export class Skip extends Parser<undefined> {
     constructor(protected parser: Parser<any>) {
         super();
     }
+    describe(): ParserNode {
+        return transform("skip", this.parser);
+    }
     parse(source: Source): ParseResult<undefined> {
-        const result = this.parser.parse(source);
-        if (result.is_ok()) {
-            return new Ok(undefined);
-        }
-        return result;
+        return discard(this.parser.parse(source));
+    }
+    *steps(source: Source): Steps<undefined> {
+        return discard(yield this.parser);
     }
-}
-
-export function always<T>(value: T): Parser<T> {
-    return new CustomParser((source: Source) => {
-        return new Ok(value);
-    });
 }
 
 /**
- * matches any input character and produces it, fails on EOF
+ * `Skip` of a combinator made for it, described as the combinator, e.g. `many()` of a `Skip`
  */
-export function any(): Parser<string> {
+class Skipped extends Skip {
+    describe(): ParserNode {
+        return this.parser.describe();
+    }
+}
+
+function discard(result: ParseResult<any>): ParseResult<undefined> {
+    return result.is_ok() ? new Ok(undefined) : result;
+}
+
+/**
+ * "combinator" applied to "self", a `Skip` when "self" is one, e.g. `or()` of two `Skip` parsers
+ */
+function wrap<T>(self: Parser<any>, combinator: Combinator<T>): Parser<T> | Skip {
+    return is_skip(self) ? new Skipped(combinator) : combinator;
+}
+
+/**
+ * defers construction of the parser until it's first used, allows recursive grammars:
+ * `const list: Parser<List> = char("[").next(lazy(() => list).sepBy(char(","))).followedBy(char("]"))`
+ * left recursive rules have to be memoized, see `memo()`
+ */
+export function lazy<T>(factory: () => Parser<T>): Parser<T> {
+    return new Lazy(factory);
+}
+
+/**
+ * if "parser" fails, the error is reported to `Source.diagnostics`, input is skipped up to the point
+ * where "sync" matches (or to the end of input) and "fallback" is produced instead
+ * "sync" itself is not consumed
+ */
+export function recover<T>(parser: Parser<T>, sync: Parser<any>, fallback: T): Parser<T> {
+    return new Recover(parser, sync, fallback);
+}
+
+/**
+ * builds a primitive parser from a function, "parse" has to leave `source.pos` right after the consumed input
+ * and report results with `success()` and `fail()`:
+ *
+ *     const upper = custom<string>((source) => {
+ *         const pos = source.pos;
+ *         const ch = source.next();
+ *         return ch !== "" && ch === ch.toUpperCase() ? success(ch) : fail(source, pos, "upper case letter");
+ *     });
+ *
+ * the returned parser supports all the combinators, including `skip()`
+ * parsers called by "parse" run on the call stack, nest them with `gen()` where the input can nest deeply
+ */
+export function custom<T>(parse: (source: Source) => ParseResult<T>): Parser<T> {
+    return new CustomParser(parse);
+}
+
+/**
+ * alias for `custom()`
+ */
+export const fromFunction = custom;
+
+export interface ParseReport<T> {
+    /**
+     * undefined when the parse failed even with recovery
+     */
+    value?: T;
+    errors: ParseError[];
+}
+
+/**
+ * parses "input" collecting all the errors recovered by `recover()` together with the possible final error
+ */
+export function run<T>(parser: Parser<T>, input: string): ParseReport<T> {
+    const source = new Source(input, 0);
+    const result = parser.parse(source);
+    const errors = source.diagnostics.slice();
+    if (result.is_ok()) {
+        return { value: result.unwrap(), errors };
+    }
+    errors.push(result.unwrap_err());
+    return { errors };
+}
+
+export function always<T>(value: T): Parser<T> {
+    return new CustomParser((source: Source) => {
+        return new Ok(value);
+    }, { kind: "empty", children: [] });
+}
+
+export interface MatchOptions {
+    caseInsensitive?: boolean;
+}
+
+/**
+ * matches any input character and produces it, fails on EOF
+ * in `unicode` mode of the source astral characters are matched whole, otherwise they are split into surrogates
+ */
+export function any(): Parser<string> {
     return new CustomParser((source) => {
         const next = source.next();
         if (next !== "") {
             return new Ok(next);
         }
-        return fail(source, `expected any character, got EOF`);
-    });
+        return fail(source, source.pos, "any character");
+    }, { kind: "terminal", label: "any character", children: [] });
 }
 
 /**
- * matches only specific character and produces it
+ * matches only specific character (code point) and produces it
  */
 export function char(char: string): Parser<string> {
-    if (char.length !== 1) {
+    if (Array.from(char).length !== 1) {
         throw new TypeError("char is supposed to be 1 character");
     }
+    const expected = describe_token(char);
     return new CustomParser((source) => {
-        const next = source.next();
-        if (next === char) {
+        const pos = source.pos;
+        if (source.matches(pos, char)) {
+            source.pos += char.length;
+            return new Ok(char);
+        }
+        return fail(source, pos, expected);
+    }, { kind: "literal", label: char, children: [] });
+}
+
+/**
+ * matches any of characters (code points) found in the input string and produces it
+ */
+export function oneOf(chars: string, options: MatchOptions = {}): Parser<string> {
+    const ignore_case = options.caseInsensitive === true;
+    const char_array = Array.from(ignore_case ? chars.toLowerCase() : chars);
+    const expected = `one of ${describe_token(chars)}`;
+    return new CustomParser((source: Source) => {
+        const pos = source.pos;
+        const next = source.code_point(pos);
+        if (next !== "" && char_array.includes(ignore_case ? next.toLowerCase() : next)) {
+            source.pos += next.length;
             return new Ok(next);
         }
-        return fail(source, `expecting "${char}", got "${next}"`);
-    });
+        return fail(source, pos, expected);
+    }, { kind: "charset", label: chars, children: [] });
 }
 
 /**
- * matches any of characters found in the input string and produces it
+ * matches a letter of any script (Unicode category L)
  */
-export function oneOf(chars: string): Parser<string> {
-    const char_array = chars.split("");
+export function letter(): Parser<string> {
+    return code_point_matching(/^\p{L}$/u, "letter");
+}
+
+/**
+ * matches a code point of Unicode general category or property "name", e.g. `unicodeClass("Lu")`
+ * or `unicodeClass("Script=Greek")`
+ */
+export function unicodeClass(name: string): Parser<string> {
+    return code_point_matching(new RegExp(`^\\p{${name}}$`, "u"), `\\p{${name}}`);
+}
+
+/**
+ * matches a code point of a regular expression character class, e.g. `charClass("[\\p{L}\\p{Nd}_]")`
+ */
+export function charClass(set: string): Parser<string> {
+    return code_point_matching(new RegExp(`^(?:${set})$`, "u"), set);
+}
+
+/**
+ * matches a code point that can start an identifier (Unicode XID_Start)
+ */
+export function xidStart(): Parser<string> {
+    return code_point_matching(/^\p{XID_Start}$/u, "identifier start");
+}
+
+/**
+ * matches a code point that can continue an identifier (Unicode XID_Continue)
+ */
+export function xidContinue(): Parser<string> {
+    return code_point_matching(/^\p{XID_Continue}$/u, "identifier character");
+}
+
+function code_point_matching(pattern: RegExp, expected: string): Parser<string> {
     return new CustomParser((source: Source) => {
-        const next = source.next();
-        if (char_array.includes(next)) {
+        const pos = source.pos;
+        const next = source.code_point(pos);
+        if (next !== "" && pattern.test(next)) {
+            source.pos += next.length;
             return new Ok(next);
         }
-        return fail(source, `one of "${chars}"`);
-    });
+        return fail(source, pos, expected);
+    }, { kind: "terminal", label: expected, children: [] });
 }
 
 /**
@@ -350,211 +1098,552 @@ export function oneOf(chars: string): Parser<string> {
  */
 export function eof(): Parser<undefined> {
     return new CustomParser((source: Source) => {
+        const pos = source.pos;
         const next = source.next();
         return (next === "")
             ? new Ok(undefined)
-            : fail(source, `expected "EOF", got "${next}"`);
-    });
+            : fail(source, pos, "EOF");
+    }, { kind: "terminal", label: "EOF", children: [] });
+}
+/**
+ * matches "pattern" at the current position and produces the matched text
+ * with "group" produces the text of that capture group instead (empty string if the group did not participate)
+ */
+export function regex(pattern: RegExp, group = 0): Parser<string> {
+    return regexMatch(pattern).map((match) => match[group] || "");
 }
+
 /**
- * matches the specified string
+ * matches "pattern" at the current position and produces the whole match including capture groups
  */
-export function string(str: string): Parser<string> {
+export function regexMatch(pattern: RegExp): Parser<RegExpExecArray> {
+    const sticky = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "") + "y");
+    const expected = pattern.toString();
     return new CustomParser((source: Source) => {
-        const matched = [];
-        for (const ch of str) {
-            const next = source.next();
-            matched.push(next);
-            if (ch !== next) {
-                return fail(source, `expecting "${str}", got "${matched.join("")}"`);
-            }
+        const pos = source.pos;
+        const match = source.exec(sticky, pos);
+        if (match === undefined) {
+            return fail(source, pos, expected);
         }
-        return new Ok(str);
-    });
+        source.pos += match[0].length;
+        return new Ok(match);
+    }, { kind: "terminal", label: expected, children: [] });
+}
+
+/**
+ * matches the specified string and produces the matched input
+ * on failure the error is reported at the start of the string
+ */
+export function string(str: string, options: MatchOptions = {}): Parser<string> {
+    const ignore_case = options.caseInsensitive === true;
+    const expected = describe_token(str);
+    return new CustomParser((source: Source) => {
+        const pos = source.pos;
+        const text = source.slice(pos, pos + str.length);
+        if (source.matches(pos, str, ignore_case)) {
+            source.pos += str.length;
+            return new Ok(text);
+        }
+        return fail(source, pos, expected, describe_token(text));
+    }, { kind: "literal", label: str, children: [] });
+}
+
+/**
+ * value produced by a parser, `Skip` produces nothing
+ */
+export type ValueOf<P> = P extends Skip ? never : P extends Parser<infer T> ? T : never;
+
+/**
+ * tuple of values produced by a sequence of parsers, `Skip` members are left out
+ */
+export type SeqValues<P extends (Parser<any> | Skip)[]> =
+    P extends [] ? [] :
+    P extends [infer H, ...infer R] ? (
+        R extends (Parser<any> | Skip)[]
+            ? H extends Skip ? SeqValues<R> : [ValueOf<H>, ...SeqValues<R>]
+            : never
+    ) :
+    ValueOf<P[number]>[];
+
+/**
+ * matches all the parsers one after another, produces a tuple of their values without the `Skip` ones:
+ * `seq(char("a"), char("-").skip(), decimal())` is a `Parser<[string, number]>`
+ * without any parsers it succeeds with `[]` without consuming input
+ */
+export function seq(arg: Skip, ...args: Skip[]): Skip;
+export function seq<P extends (Parser<any> | Skip)[]>(...parsers: [...P]): Parser<SeqValues<P>>;
+export function seq(...parsers: (Parser<any> | Skip)[]): Parser<any[]> | Skip {
+    if (parsers.length > 0 && parsers.every(is_skip)) {
+        return new Skipped(new Seq(parsers));
+    }
+    return new Seq(parsers);
+}
+
+/**
+ * matches the first of the parsers that succeeds, see `Parser.or`
+ * unlike `or` the parsers may produce values of different types: `alt(char("a"), decimal())` is a `Parser<string | number>`
+ * without any parsers it always fails, e.g. for `alt(...keywords.map((k) => string(k)))` with no keywords
+ */
+export function alt(arg: Skip, ...args: Skip[]): Skip;
+export function alt<P extends (Parser<any> | Skip)[]>(...parsers: [...P]): Parser<P[number] extends Parser<infer T> ? T : never>;
+export function alt(...parsers: (Parser<any> | Skip)[]): Parser<any> | Skip {
+    if (parsers.length === 0) {
+        return new CustomParser((source) => fail(source, source.pos), { kind: "custom", label: "no alternative", children: [] });
+    }
+    return parsers.reduce((first, second) => (first as Parser<any>).or(second as Parser<any>));
+}
+
+/**
+ * values produced by a record of parsers, `Skip` fields are left out
+ */
+export type StructValues<S extends { [key: string]: Parser<any> | Skip }> = {
+    [K in keyof S as S[K] extends Skip ? never : K]: ValueOf<S[K]>
+};
+
+/**
+ * matches the fields of "fields" one after another (in property order), produces an object of their values:
+ * `struct({ key: identifier, _: char("=").skip(), value: expr })` is a `Parser<{ key: string, value: Expr }>`
+ */
+export function struct<S extends { [key: string]: Parser<any> | Skip }>(fields: S): Parser<StructValues<S>> {
+    return new Struct(fields);
+}
+
+/**
+ * builds a parser from a generator, `yield*` runs a parser and evaluates to its value,
+ * so later steps can depend on earlier values:
+ *
+ *     gen(function* () {
+ *         const length = yield* decimal();
+ *         yield* char(":").skip();
+ *         return yield* any().times(length).join();
+ *     })
+ */
+export function gen<T>(body: () => Generator<Parser<any>, T, any>): Parser<T> {
+    return new Gen(body);
 }
 
 /**
- * for now only seq of parsers of the same type
- * once typescript gets variadic generics (https://github.com/Microsoft/TypeScript/issues/5453)
- * it should be doable to make seq use arbitraty types
+ * parser running nested parsers, see `execute()`
+ * `parse()` drives its `steps()` calling the nested parsers directly, the combinators running for most of the input
+ * have a `parse()` of their own without the generator
  */
-export function seq<T>(arg: Skip, ...args: Skip[]): Skip;
-export function seq<T>(arg: Parser<T>, ...args: Parser<T>[]): Parser<T[]>;
-export function seq<T>(arg: Parser<T> | Skip, ...args: (Parser<T> | Skip)[]): Parser<T[]> | Skip {
-    if (is_skip(arg)) {
-        return new SkipSeq(arg, ...args);
+abstract class Combinator<T> extends Parser<T> {
+    parse(source: Source): ParseResult<T> {
+        return drive(this.steps(source), source);
     }
-    return new Seq(arg, ...args as Parser<T>[]);
+    abstract steps(source: Source): Steps<T>;
 }
 
-class Seq<T> extends Parser<T[]> {
-    private rest: Parser<T>[];
-    constructor(private parser: Parser<T>, ...rest: Parser<T>[]) {
+/**
+ * combinator the grammar can recur through: a deeper nesting of the input passes more of them, see `recurse()`
+ */
+abstract class Recursive<T> extends Combinator<T> {
+    parse(source: Source): ParseResult<T> {
+        return recurse(this, source);
+    }
+    /**
+     * parse on the call stack, `recurse()` counted the combinator already
+     */
+    direct(source: Source): ParseResult<T> {
+        return drive(this.nested(source), source);
+    }
+    *steps(source: Source): Steps<T> {
+        descend(source);
+        return yield* this.nested(source);
+    }
+    /**
+     * steps of the parse once the combinator is counted
+     */
+    protected abstract nested(source: Source): Steps<T>;
+}
+
+/**
+ * combinator running "parser" once, `done()` makes its result out of the result of "parser",
+ * "pos" and "reported" are the position and the number of reported errors before "parser" ran
+ */
+abstract class Unary<T, U> extends Combinator<U> {
+    constructor(protected parser: Parser<T>) {
         super();
-        this.rest = rest;
     }
-    parse(source: Source): ParseResult<T[]> {
-        const result1 = this.parser.parse(source);
-        if (!result1.is_ok()) {
-            return fail(source);
-        }
-        const results = [result1.unwrap()];
-        for (const p of this.rest) {
-            const result2 = p.parse(source);
-            if (result2.is_ok()) {
-                results.push(result2.unwrap());
-            } else {
-                return cast_err(result2);
-            }
+    parse(source: Source): ParseResult<U> {
+        const pos = source.pos;
+        const reported = source.diagnostics.length;
+        return this.done(source, this.parser.parse(source), pos, reported);
+    }
+    *steps(source: Source): Steps<U> {
+        const pos = source.pos;
+        const reported = source.diagnostics.length;
+        return this.done(source, yield this.parser, pos, reported);
+    }
+    protected abstract done(source: Source, result: ParseResult<T>, pos: number, reported: number): ParseResult<U>;
+}
+
+/**
+ * combinator running "first" and then "second", `done()` makes its result out of both of their successes
+ */
+abstract class Pair<A, B, U> extends Combinator<U> {
+    constructor(protected first: Parser<A>, protected second: Parser<B>) {
+        super();
+    }
+    describe(): ParserNode {
+        return { kind: "sequence", children: [this.first, this.second] };
+    }
+    parse(source: Source): ParseResult<U> {
+        const first_result = this.first.parse(source);
+        if (!first_result.is_ok()) {
+            return cast_err(first_result);
         }
-        return new Ok(results);
+        const second_result = this.second.parse(source);
+        if (!second_result.is_ok()) {
+            return cast_err(second_result);
+        }
+        return this.done(first_result, second_result);
+    }
+    *steps(source: Source): Steps<U> {
+        const first_result = yield this.first;
+        if (!first_result.is_ok()) {
+            return cast_err(first_result);
+        }
+        const second_result = yield this.second;
+        if (!second_result.is_ok()) {
+            return cast_err(second_result);
+        }
+        return this.done(first_result, second_result);
     }
+    protected abstract done(first: ParseResult<A>, second: ParseResult<B>): ParseResult<U>;
 }
 
+class Struct<S extends { [key: string]: Parser<any> | Skip }> extends Combinator<StructValues<S>> {
+    private fields: [string, Parser<any>, boolean][];
+    constructor(fields: S) {
+        super();
+        this.fields = Object.keys(fields).map((key): [string, Parser<any>, boolean] => [key, fields[key], !is_skip(fields[key])]);
+    }
+    describe(): ParserNode {
+        return { kind: "sequence", children: this.fields.map(([, parser]) => parser) };
+    }
+    *steps(source: Source): Steps<StructValues<S>> {
+        const values: { [key: string]: any } = {};
+        for (const [key, parser, keep] of this.fields) {
+            const result = yield parser;
+            if (!result.is_ok()) {
+                return cast_err(result);
+            }
+            if (keep) {
+                values[key] = result.unwrap();
+            }
+        }
+        return success(values as StructValues<S>);
+    }
+}
 
+class Gen<T> extends Recursive<T> {
+    constructor(private body: () => Generator<Parser<any>, T, any>) {
+        super();
+    }
+    protected *nested(source: Source): Steps<T> {
+        const steps = this.body();
+        let step = steps.next();
+        while (!step.done) {
+            const result = yield step.value;
+            if (!result.is_ok()) {
+                close(steps);
+                return cast_err(result);
+            }
+            step = steps.next(result.unwrap());
+        }
+        return success(step.value);
+    }
+}
 
-class SkipSeq extends Skip {
-    private rest: Parser<any>[];
-    constructor(parser: Parser<any>, ...rest: Parser<any>[]) {
-        super(parser);
-        this.rest = rest;
+class Seq extends Combinator<any[]> {
+    private keep: boolean[];
+    constructor(private parsers: Parser<any>[]) {
+        super();
+        this.keep = parsers.map((parser) => !is_skip(parser));
     }
-    parse(source: Source): ParseResult<undefined> {
-        const result1 = this.parser.parse(source);
-        if (!result1.is_ok()) {
-            return fail(source);
-        }
-        for (const p of this.rest) {
-            const result2 = p.parse(source);
-            if (!result2.is_ok()) {
-                return result2;
+    describe(): ParserNode {
+        return { kind: "sequence", children: this.parsers };
+    }
+    parse(source: Source): ParseResult<any[]> {
+        const results = [];
+        for (let i = 0; i < this.parsers.length; ++i) {
+            const result = this.parsers[i].parse(source);
+            if (!result.is_ok()) {
+                return cast_err(result);
+            }
+            if (this.keep[i]) {
+                results.push(result.unwrap());
             }
         }
-        return new Ok(undefined);
+        return new Ok(results);
+    }
+    *steps(source: Source): Steps<any[]> {
+        const results = [];
+        for (let i = 0; i < this.parsers.length; ++i) {
+            const result = yield this.parsers[i];
+            if (!result.is_ok()) {
+                return cast_err(result);
+            }
+            if (this.keep[i]) {
+                results.push(result.unwrap());
+            }
+        }
+        return new Ok(results);
     }
 }
 
 class CustomParser<T> extends Parser<T> {
     // TODO: is it more efficient to set ```this.parse = _```?
-    constructor(private _: (source: Source) => ParseResult<T>) {
+    constructor(private _: (source: Source) => ParseResult<T>, private node: ParserNode = { kind: "custom", children: [] }) {
         super();
     }
+    describe(): ParserNode {
+        return this.node;
+    }
     parse(source: Source): ParseResult<T> {
         return this._(source);
     }
 }
 
-class Or<T> extends Parser<T> {
-    constructor(private first: Parser<T>, private second: Parser<T>) {
+class Lazy<T> extends Recursive<T> {
+    private parser?: Parser<T>;
+    constructor(private factory: () => Parser<T>) {
         super();
     }
-    parse(source: Source): ParseResult<T> {
-        const pos = source.pos;
-        const first_result = this.first.parse(source);
-        if (first_result.is_ok()) {
-            return first_result;
+    describe(): ParserNode {
+        return transform("lazy", this.force());
+    }
+    direct(source: Source): ParseResult<T> {
+        return this.force().parse(source);
+    }
+    protected *nested(source: Source): Steps<T> {
+        return yield this.force();
+    }
+    private force(): Parser<T> {
+        if (this.parser === undefined) {
+            this.parser = this.factory();
         }
-        source.pos = pos;
-        return this.second.parse(source);
+        return this.parser;
     }
 }
 
-class Then<T, U> extends Parser<[T, U]> {
-    constructor(private first: Parser<T>, private second: Parser<U>) {
+class Recover<T> extends Combinator<T> {
+    constructor(private parser: Parser<T>, private sync: Parser<any>, private fallback: T) {
         super();
     }
-    parse(source: Source): ParseResult<[T, U]> {
-        const first_result = this.first.parse(source);
-        if (!first_result.is_ok()) {
-            return cast_err(first_result);
+    describe(): ParserNode {
+        return transform("recover", this.parser);
+    }
+    *steps(source: Source): Steps<T> {
+        const pos = source.pos;
+        const result = yield this.parser;
+        if (result.is_ok()) {
+            return result;
         }
-        const second_result = this.second.parse(source);
-        if (!second_result.is_ok()) {
-            return cast_err(second_result);
+        const error = result.unwrap_err();
+        source.report(error);
+        source.rewind(Math.max(pos, error.pos), source.diagnostics.length);
+        for (; ;) {
+            const at = source.pos;
+            const reported = source.diagnostics.length;
+            const synced = (yield this.sync).is_ok();
+            source.rewind(at, reported);
+            if (synced || source.next() === "") {
+                return success(this.fallback);
+            }
         }
-        const x = first_result.unwrap();
-        const y = second_result.unwrap();
-        return success<[T, U]>([x, y]);
     }
 }
 
-class Next<T> extends Parser<T> {
-    constructor(private first: Parser<any>, private second: Parser<T>) {
+class Or<T> extends Combinator<T> {
+    constructor(private first: Parser<T>, private second: Parser<T>) {
         super();
     }
+    describe(): ParserNode {
+        return { kind: "choice", children: [this.first, this.second] };
+    }
     parse(source: Source): ParseResult<T> {
+        const pos = source.pos;
+        const reported = source.diagnostics.length;
         const first_result = this.first.parse(source);
-        if (!first_result.is_ok()) {
+        if (first_result.is_ok() || first_result.unwrap_err().is_consumed(pos)) {
             return first_result;
         }
-        return this.second.parse(source);
+        source.rewind(pos, reported);
+        return this.done(first_result, this.second.parse(source));
+    }
+    *steps(source: Source): Steps<T> {
+        const pos = source.pos;
+        const reported = source.diagnostics.length;
+        const first_result = yield this.first;
+        if (first_result.is_ok() || first_result.unwrap_err().is_consumed(pos)) {
+            return first_result;
+        }
+        source.rewind(pos, reported);
+        return this.done(first_result, yield this.second);
+    }
+    private done(first_result: ParseResult<T>, second_result: ParseResult<T>): ParseResult<T> {
+        if (second_result.is_ok()) {
+            return second_result;
+        }
+        return new Err<T, ParseError>(first_result.unwrap_err().merge(second_result.unwrap_err()));
     }
 }
 
-class Many<T> extends Parser<T[]> {
-    constructor(private parser: Parser<T>) {
+class Then<T, U> extends Pair<T, U, [T, U]> {
+    protected done(first: ParseResult<T>, second: ParseResult<U>): ParseResult<[T, U]> {
+        return success<[T, U]>([first.unwrap(), second.unwrap()]);
+    }
+}
+
+class Next<T> extends Pair<any, T, T> {
+    protected done(first: ParseResult<any>, second: ParseResult<T>): ParseResult<T> {
+        return second;
+    }
+}
+
+class FollowedBy<T> extends Pair<T, any, T> {
+    protected done(first: ParseResult<T>, second: ParseResult<any>): ParseResult<T> {
+        return first;
+    }
+}
+
+/**
+ * `many()` and with a "min" of 1 `many1()`
+ */
+class Many<T> extends Combinator<T[]> {
+    constructor(private parser: Parser<T>, private min: 0 | 1 = 0) {
         super();
     }
+    describe(): ParserNode {
+        return { kind: this.min === 0 ? "many" : "many1", children: [this.parser] };
+    }
     parse(source: Source): ParseResult<T[]> {
-        const ret = [];
+        const values: T[] = [];
         for (; ;) {
             const pos = source.pos;
-            const res = this.parser.parse(source);
-            if (!res.is_ok()) {
-                source.pos = pos;
-                return success(ret);
-            } else {
-                ret.push(res.unwrap());
+            const reported = source.diagnostics.length;
+            const result = this.parser.parse(source);
+            if (!result.is_ok()) {
+                return this.done(source, result, values, pos, reported);
             }
+            values.push(result.unwrap());
+            if (source.pos === pos) {
+                // "this" succeeded without consuming input, it would do so forever
+                return success(values);
+            }
+        }
+    }
+    *steps(source: Source): Steps<T[]> {
+        const values: T[] = [];
+        for (; ;) {
+            const pos = source.pos;
+            const reported = source.diagnostics.length;
+            const result = yield this.parser;
+            if (!result.is_ok()) {
+                return this.done(source, result, values, pos, reported);
+            }
+            values.push(result.unwrap());
+            if (source.pos === pos) {
+                // "this" succeeded without consuming input, it would do so forever
+                return success(values);
+            }
+        }
+    }
+    /**
+     * end of the repetition by the failure of "parser" at "pos", fails if it consumed input or came too early
+     */
+    private done(source: Source, result: Err<T, ParseError>, values: T[], pos: number, reported: number): ParseResult<T[]> {
+        if (values.length < this.min || result.unwrap_err().is_consumed(pos)) {
+            return cast_err(result);
         }
+        source.rewind(pos, reported);
+        return success(values);
     }
 }
 
-class SkipMany extends Skip {
-    constructor(parser: Parser<any>) {
-        super(parser);
+class ChainL1<T> extends Combinator<T> {
+    constructor(private parser: Parser<T>, private op: Parser<(left: T, right: T) => T>) {
+        super();
     }
-    parse(source: Source): ParseResult<undefined> {
+    describe(): ParserNode {
+        return { kind: "chainl1", children: [this.parser, this.op] };
+    }
+    *steps(source: Source): Steps<T> {
+        const first = yield this.parser;
+        if (!first.is_ok()) {
+            return first;
+        }
+        let value = first.unwrap();
         for (; ;) {
             const pos = source.pos;
-            const res = this.parser.parse(source);
-            if (!res.is_ok()) {
-                source.pos = pos;
-                return new Ok(undefined);
+            const reported = source.diagnostics.length;
+            const op = yield this.op;
+            if (!op.is_ok()) {
+                if (op.unwrap_err().is_consumed(pos)) {
+                    return cast_err(op);
+                }
+                source.rewind(pos, reported);
+                return success(value);
             }
+            const right = yield this.parser;
+            if (!right.is_ok()) {
+                return right;
+            }
+            value = op.unwrap()(value, right.unwrap());
         }
     }
 }
 
-class Many1<T> extends Parser<T[]> {
-    constructor(private parser: Parser<T>) {
+class ChainR1<T> extends Combinator<T> {
+    constructor(private parser: Parser<T>, private op: Parser<(left: T, right: T) => T>) {
         super();
     }
-    parse(source: Source): ParseResult<T[]> {
-        const res = this.parser.parse(source);
-        if (!res.is_ok()) {
-            return cast_err(res);
+    describe(): ParserNode {
+        return { kind: "chainr1", children: [this.parser, this.op] };
+    }
+    *steps(source: Source): Steps<T> {
+        const first = yield this.parser;
+        if (!first.is_ok()) {
+            return first;
         }
-        const ret = [res.unwrap()];
+        const values = [first.unwrap()];
+        const ops: ((left: T, right: T) => T)[] = [];
         for (; ;) {
             const pos = source.pos;
-            const res = this.parser.parse(source);
-            if (!res.is_ok()) {
-                source.pos = pos;
-                return new Ok(ret);
-            } else {
-                ret.push(res.unwrap());
+            const reported = source.diagnostics.length;
+            const op = yield this.op;
+            if (!op.is_ok()) {
+                if (op.unwrap_err().is_consumed(pos)) {
+                    return cast_err(op);
+                }
+                source.rewind(pos, reported);
+                break;
             }
+            const right = yield this.parser;
+            if (!right.is_ok()) {
+                return right;
+            }
+            ops.push(op.unwrap());
+            values.push(right.unwrap());
+        }
+        let value = values[values.length - 1];
+        for (let i = ops.length - 1; i >= 0; --i) {
+            value = ops[i](values[i], value);
         }
+        return success(value);
     }
 }
 
-class Map<T, U> extends Parser<U> {
-    constructor(private from: Parser<T>, private mapper: (value: T) => U) {
-        super();
+class MapParser<T, U> extends Unary<T, U> {
+    constructor(parser: Parser<T>, private mapper: (value: T) => U) {
+        super(parser);
     }
-    parse(source: Source): ParseResult<U> {
-        const result = this.from.parse(source);
+    describe(): ParserNode {
+        return transform("map", this.parser);
+    }
+    protected done(source: Source, result: ParseResult<T>): ParseResult<U> {
         if (!result.is_ok()) {
             return cast_err(result);
         }
@@ -562,12 +1651,14 @@ class Map<T, U> extends Parser<U> {
     }
 }
 
-class MapSkip<U> extends Parser<U> {
-    constructor(private from: Skip, private mapper: () => U) {
-        super();
+class MapSkip<U> extends Unary<undefined, U> {
+    constructor(parser: Skip, private mapper: () => U) {
+        super(parser);
     }
-    parse(source: Source): ParseResult<U> {
-        const result = this.from.parse(source);
+    describe(): ParserNode {
+        return transform("map", this.parser);
+    }
+    protected done(source: Source, result: ParseResult<undefined>): ParseResult<U> {
         if (!result.is_ok()) {
             return cast_err(result);
         }
@@ -575,94 +1666,198 @@ class MapSkip<U> extends Parser<U> {
     }
 }
 
-class Validate<T> extends Parser<T> {
-    constructor(private parser: Parser<T>, private validator: (value: T) => ParseResult<T>) {
+class Chain<T, U> extends Recursive<U> {
+    constructor(private from: Parser<T>, private build: (value: T) => Parser<U>) {
         super();
     }
-    parse(source: Source): ParseResult<T> {
-        return this.parser.parse(source).and_then(this.validator);
+    describe(): ParserNode {
+        return { kind: "custom", children: [this.from] };
+    }
+    protected *nested(source: Source): Steps<U> {
+        const result = yield this.from;
+        if (!result.is_ok()) {
+            return cast_err(result);
+        }
+        return yield this.build(result.unwrap());
     }
 }
 
-class FollowedBy<T> extends Parser<T> {
-    constructor(private _first: Parser<T>, private _next: Parser<any>) {
-        super();
+class Validate<T> extends Unary<T, T> {
+    constructor(parser: Parser<T>, private validator: (value: T) => ParseResult<T>) {
+        super(parser);
+    }
+    describe(): ParserNode {
+        return transform("validate", this.parser);
+    }
+    protected done(source: Source, result: ParseResult<T>): ParseResult<T> {
+        return result.and_then(this.validator);
+    }
+}
+
+class Join extends Unary<string[], string> {
+    constructor(parser: Parser<string[]>, private separator: string) {
+        super(parser);
+    }
+    describe(): ParserNode {
+        return transform("join", this.parser);
+    }
+    protected done(source: Source, result: ParseResult<string[]>): ParseResult<string> {
+        if (result.is_ok()) {
+            return new Ok(result.unwrap().join(this.separator));
+        }
+        return cast_err(result);
+    }
+}
+
+/**
+ * `named()` and `expect()`, the tracer of the source gets the events of "name"
+ * `expect()` relabels the failures without consumed input
+ */
+class Traced<T> extends Unary<T, T> {
+    constructor(parser: Parser<T>, private name: string, private kind: "rule" | "label") {
+        super(parser);
+    }
+    describe(): ParserNode {
+        return { kind: this.kind, label: this.name, children: [this.parser] };
     }
     parse(source: Source): ParseResult<T> {
-        const first_res = this._first.parse(source);
-        if (!first_res.is_ok()) {
-            return first_res;
+        if (source.tracer !== undefined) {
+            return drive(this.steps(source), source);
+        }
+        // most rules run without a tracer, their events need no generator then
+        const pos = source.pos;
+        return this.done(source, this.parser.parse(source), pos);
+    }
+    *steps(source: Source): Steps<T> {
+        if (source.tracer === undefined) {
+            return yield* super.steps(source);
+        }
+        const pos = source.pos;
+        return this.done(source, yield* traced(this.name, this.kind, this.parser, source), pos);
+    }
+    protected done(source: Source, result: ParseResult<T>, pos: number): ParseResult<T> {
+        if (this.kind === "rule" || result.is_ok()) {
+            return result;
         }
-        const second_res = this._next.parse(source);
-        if (!second_res.is_ok()) {
-            return second_res;
+        const error = result.unwrap_err();
+        if (error.pos !== pos) {
+            return result;
         }
-        return first_res;
+        return new Err(error.relabel(this.name));
     }
 }
 
-class Join extends Parser<string> {
-    constructor(private _parser: Parser<string[]>, private _separator: string) {
-        super();
+class Optional<T> extends Unary<T, T | undefined> {
+    describe(): ParserNode {
+        return { kind: "optional", children: [this.parser] };
+    }
+    protected done(source: Source, result: ParseResult<T>, pos: number, reported: number): ParseResult<T | undefined> {
+        if (result.is_ok() || result.unwrap_err().is_consumed(pos)) {
+            return result;
+        }
+        source.rewind(pos, reported);
+        return new Ok(undefined);
+    }
+}
+
+class Attempt<T> extends Unary<T, T> {
+    describe(): ParserNode {
+        return transform("attempt", this.parser);
     }
-    parse(source: Source): ParseResult<string> {
-        const result = this._parser.parse(source);
+    protected done(source: Source, result: ParseResult<T>, pos: number): ParseResult<T> {
         if (result.is_ok()) {
-            return new Ok(result.unwrap().join(this._separator));
+            return result;
         }
-        return cast_err(result);
+        return new Err(result.unwrap_err().backtrack(pos));
     }
 }
 
-class Not extends Skip {
-    constructor(parser: Parser<any>) {
-        super(parser.peek());
+class Cut<T> extends Unary<T, T> {
+    describe(): ParserNode {
+        return transform("cut", this.parser);
     }
-    parse(source: Source): ParseResult<undefined> {
-        const result = this.parser.parse(source);
+    protected done(source: Source, result: ParseResult<T>): ParseResult<T> {
         if (result.is_ok()) {
-            return fail(source);
-        } else {
-            return new Ok(undefined);
+            return result;
         }
+        return new Err(result.unwrap_err().commit());
     }
 }
 
-class Peek<T> extends Parser<T> {
+/**
+ * the parser itself is the key of its results in the memo table of the source
+ */
+class Memo<T> extends Combinator<T> {
     constructor(private parser: Parser<T>) {
         super();
     }
+    describe(): ParserNode {
+        return transform("memo", this.parser);
+    }
     parse(source: Source): ParseResult<T> {
-        const pos = source.pos;
-        const result = this.parser.parse(source);
-        source.pos = pos;
-        return result;
+        const found = source.memo_lookup(this, source.pos);
+        return found === undefined ? drive(this.steps(source), source) : memo_hit(found, source);
+    }
+    *steps(source: Source): Steps<T> {
+        const found = source.memo_lookup(this, source.pos);
+        if (found !== undefined) {
+            return memo_hit(found, source);
+        }
+        const entry = yield* memo_parse(this.parser, this, source);
+        return entry.result;
     }
 }
 
-class PeekSkip extends Skip {
-    constructor(parser: Skip) {
-        super(parser);
+/**
+ * succeeds where "parser" fails, does not consume input either way
+ */
+class Not extends Unary<any, undefined> {
+    describe(): ParserNode {
+        return { kind: "not", children: [this.parser] };
     }
-    parse(source: Source): ParseResult<undefined> {
-        const pos = source.pos;
-        const result = this.parser.parse(source);
-        source.pos = pos;
+    protected done(source: Source, result: ParseResult<any>, pos: number, reported: number): ParseResult<undefined> {
+        source.rewind(pos, reported);
         if (result.is_ok()) {
+            return fail(source, pos);
+        } else {
             return new Ok(undefined);
         }
+    }
+}
+
+class Peek<T> extends Unary<T, T> {
+    describe(): ParserNode {
+        return { kind: "lookahead", children: [this.parser] };
+    }
+    protected done(source: Source, result: ParseResult<T>, pos: number, reported: number): ParseResult<T> {
+        source.rewind(pos, reported);
         return result;
     }
 }
 
-class Times<T> extends Parser<T[]> {
+class SpannedParser<T> extends Unary<T, Spanned<T>> {
+    describe(): ParserNode {
+        return transform("spanned", this.parser);
+    }
+    protected done(source: Source, result: ParseResult<T>, pos: number): ParseResult<Spanned<T>> {
+        if (!result.is_ok()) {
+            return cast_err(result);
+        }
+        return success({ value: result.unwrap(), span: source.span(pos) });
+    }
+}
+
+class Times<T> extends Combinator<T[]> {
     constructor(private parser: Parser<T>, private _times: number) {
         super();
     }
-    parse(source: Source): ParseResult<T[]> {
+    describe(): ParserNode {
+        return { kind: "repeat", label: String(this._times), children: [this.parser] };
+    }
+    *steps(source: Source): Steps<T[]> {
         const results = [];
         for (let i = 0; i < this._times; ++i) {
-            const result = this.parser.parse(source);
+            const result = yield this.parser;
             if (result.is_ok()) {
                 results.push(result.unwrap());
             } else {
@@ -673,21 +1868,6 @@ class Times<T> extends Parser<T[]> {
     }
 }
 
-class TimesSkip extends Skip {
-    constructor(parser: Parser<any>, private _times: number) {
-        super(parser);
-    }
-    parse(source: Source): ParseResult<undefined> {
-        for (let i = 0; i < this._times; ++i) {
-            const result = this.parser.parse(source);
-            if (!result.is_ok()) {
-                return result;
-            }
-        }
-        return new Ok(undefined);
-    }
-}
-
 export namespace grammar {
     /**
      * matches a decimal digit
@@ -696,6 +1876,9 @@ export namespace grammar {
         return oneOf("0123456789").expect("digit");
     }
     const ASCII_ZERO = "0".charCodeAt(0);
+    /**
+     * unsigned base-10 integer, values above `Number.MAX_SAFE_INTEGER` lose precision, see `integer()`
+     */
     export function decimal() {
         return digit().map((digit) => digit.charCodeAt(0) - ASCII_ZERO).many1().map(numbers => {
             let number = 0;
@@ -705,4 +1888,445 @@ export namespace grammar {
             return number;
         });
     }
+
+    /**
+     * number grammar followed by the numeric literal parsers:
+     * - "json": optional "-", no leading zeros, no separators, no special values and no hex/octal/binary
+     * - "js": optional sign, "_" separators, "Infinity" and "NaN", "0x"/"0o"/"0b" in any case, ".5" and "5." floats
+     * - "toml": optional sign, "_" separators, "inf" and "nan", lower case "0x"/"0o"/"0b" without sign
+     */
+    export type NumberProfile = "json" | "js" | "toml";
+
+    export interface NumberOptions {
+        /**
+         * defaults to "js"
+         */
+        profile?: NumberProfile;
+        /**
+         * whether a sign is allowed, defaults to the profile
+         */
+        sign?: boolean;
+        /**
+         * whether digits may be separated by single "_", e.g. `1_000`, defaults to the profile
+         */
+        separators?: boolean;
+        /**
+         * whether floats include infinity and NaN, defaults to the profile,
+         * spelled as in the profile or as "Infinity" and "NaN" for a profile without them
+         */
+        special?: boolean;
+    }
+
+    interface NumberSyntax {
+        sign: string;
+        separators: boolean;
+        special?: [string, string];
+        radix_sign: boolean;
+        radix_prefix_case: string;
+        short_fraction: boolean;
+    }
+
+    const NUMBER_PROFILES: { [profile in NumberProfile]: NumberSyntax } = {
+        json: { sign: "-?", separators: false, radix_sign: false, radix_prefix_case: "", short_fraction: false },
+        js: { sign: "[+-]?", separators: true, special: ["Infinity", "NaN"], radix_sign: true, radix_prefix_case: "i", short_fraction: true },
+        toml: { sign: "[+-]?", separators: true, special: ["inf", "nan"], radix_sign: false, radix_prefix_case: "", short_fraction: false },
+    };
+
+    function number_syntax(options: NumberOptions): NumberSyntax {
+        const profile = NUMBER_PROFILES[options.profile || "js"];
+        return {
+            ...profile,
+            sign: options.sign === undefined ? profile.sign : options.sign ? "[+-]?" : "",
+            separators: options.separators === undefined ? profile.separators : options.separators,
+            special: options.special === undefined ? profile.special : options.special ? profile.special || ["Infinity", "NaN"] : undefined,
+        };
+    }
+
+    /**
+     * regular expression source of digits from the "set" character class
+     */
+    function digits(set: string, separators: boolean) {
+        return separators ? `[${set}](?:_?[${set}])*` : `[${set}]+`;
+    }
+
+    function integer_part(syntax: NumberSyntax) {
+        return `(?:0|[1-9]${syntax.separators ? "(?:_?\\d)*" : "\\d*"})`;
+    }
+
+    /**
+     * parser of a literal matched by "pattern", "convert" produces undefined when the value is out of range
+     */
+    function number_literal<T>(pattern: string, flags: string, expected: string, convert: (text: string) => T | undefined): Parser<T> {
+        const sticky = new RegExp(pattern, flags + "y");
+        return new CustomParser((source: Source) => {
+            const pos = source.pos;
+            const match = source.exec(sticky, pos);
+            if (match === undefined) {
+                return fail<T>(source, pos, expected);
+            }
+            const text = match[0];
+            const value = convert(text.replace(/_/g, ""));
+            if (value === undefined) {
+                return new Err<T, ParseError>(new ParseError(pos, [], describe_token(text), `${expected} overflow`, pos + text.length));
+            }
+            source.pos += text.length;
+            return new Ok<T, ParseError>(value);
+        }, { kind: "terminal", label: expected, children: [] });
+    }
+
+    function safe_integer(value: number): number | undefined {
+        return Number.isSafeInteger(value) ? value : undefined;
+    }
+
+    /**
+     * base-10 integer, fails with "integer overflow" outside of the safe integer range
+     */
+    export function integer(options: NumberOptions = {}): Parser<number> {
+        const syntax = number_syntax(options);
+        return number_literal(`${syntax.sign}${integer_part(syntax)}`, "", "integer", (text) => safe_integer(Number(text)));
+    }
+
+    /**
+     * base-16 integer with "0x" prefix
+     */
+    export function hex(options: NumberOptions = {}): Parser<number> {
+        return radix_integer(options, "x", "\\da-fA-F", 16, "hexadecimal integer");
+    }
+
+    /**
+     * base-8 integer with "0o" prefix
+     */
+    export function octal(options: NumberOptions = {}): Parser<number> {
+        return radix_integer(options, "o", "0-7", 8, "octal integer");
+    }
+
+    /**
+     * base-2 integer with "0b" prefix
+     */
+    export function binary(options: NumberOptions = {}): Parser<number> {
+        return radix_integer(options, "b", "01", 2, "binary integer");
+    }
+
+    function radix_integer(options: NumberOptions, prefix: string, set: string, radix: number, expected: string): Parser<number> {
+        if (options.profile === "json") {
+            throw new TypeError(`json has no ${expected} literals`);
+        }
+        const syntax = number_syntax(options);
+        const sign = syntax.radix_sign ? syntax.sign : "";
+        return number_literal(`${sign}0${prefix}${digits(set, syntax.separators)}`, syntax.radix_prefix_case, expected, (text) => {
+            const negative = text.charAt(0) === "-";
+            const value = safe_integer(parseInt(text.replace(/^[+-]?0./, ""), radix));
+            return negative && value !== undefined ? -value : value;
+        });
+    }
+
+    /**
+     * floating point number with a fraction or an exponent (or both) and the special values allowed by the profile,
+     * fails with "float overflow" when the value does not fit into a double
+     */
+    export function float(options: NumberOptions = {}): Parser<number> {
+        return number_literal(float_pattern(number_syntax(options), false), "", "float", convert_float);
+    }
+
+    /**
+     * any number of the profile: integer, float or special value, and hex/octal/binary integer except for json
+     */
+    export function number(options: NumberOptions = {}): Parser<number> {
+        const syntax = number_syntax(options);
+        const literal = number_literal(float_pattern(syntax, true), "", "number", convert_float);
+        if (options.profile === "json") {
+            return literal;
+        }
+        return hex(options).or(octal(options)).or(binary(options)).or(literal).expect("number");
+    }
+
+    function float_pattern(syntax: NumberSyntax, optional_fraction: boolean) {
+        const int = integer_part(syntax);
+        const frac = `\\.${digits("\\d", syntax.separators)}`;
+        const exp = `[eE][+-]?${digits("\\d", syntax.separators)}`;
+        const alternatives = optional_fraction
+            ? [`${int}(?:${frac})?(?:${exp})?`]
+            : [`${int}${frac}(?:${exp})?`, `${int}${exp}`];
+        if (syntax.short_fraction) {
+            alternatives.unshift(`${int}\\.(?!\\d)(?:${exp})?`);
+            alternatives.push(`${frac}(?:${exp})?`);
+        }
+        if (syntax.special !== undefined) {
+            alternatives.push(...syntax.special);
+        }
+        return `${syntax.sign}(?:${alternatives.join("|")})`;
+    }
+
+    function convert_float(text: string): number | undefined {
+        const negative = text.charAt(0) === "-";
+        const unsigned = text.replace(/^[+-]/, "");
+        if (unsigned === "inf" || unsigned === "Infinity") {
+            return negative ? -Infinity : Infinity;
+        }
+        if (unsigned === "nan" || unsigned === "NaN") {
+            return NaN;
+        }
+        const value = Number(text);
+        return isFinite(value) ? value : undefined;
+    }
+
+    /**
+     * base-10 integer of any size, the "js" profile requires the "n" suffix of BigInt literals
+     */
+    export function bigint(options: NumberOptions = {}): Parser<bigint> {
+        const syntax = number_syntax(options);
+        const suffix = (options.profile || "js") === "js" ? "n" : "";
+        return number_literal(`${syntax.sign}${integer_part(syntax)}${suffix}`, "", "bigint", (text) => BigInt(text.replace(/n$/, "")));
+    }
+
+    export type Prefix<T> = { prefix: Parser<(value: T) => T> };
+    export type Postfix<T> = { postfix: Parser<(value: T) => T> };
+    export type Infix<T> = { infix: Parser<(left: T, right: T) => T>, assoc: "left" | "right" | "none" };
+    export type Operator<T> = Prefix<T> | Postfix<T> | Infix<T>;
+
+    export interface ExpressionTable<T> {
+        atom: Parser<T>;
+        /**
+         * precedence levels, the first level binds the tightest
+         * operators of a level share the precedence, infix operators of different associativity may share a level,
+         * like in Parsec an expression then chains the operators of one associativity only and a following operator
+         * of another associativity fails as ambiguous, e.g. `1 + 2 ^ 3` needs parentheses when "+" and "^" share a level
+         */
+        operators: Operator<T>[][];
+    }
+
+    /**
+     * builds an expression parser out of an operator table, in the spirit of Parsec's `buildExpressionParser`
+     * operator parsers produce the functions that construct the resulting value, e.g.:
+     *
+     *     expression({
+     *         atom: decimal(),
+     *         operators: [
+     *             [{ prefix: char("-").retn((x: number) => -x) }],
+     *             [{ infix: char("*").retn((a: number, b: number) => a * b), assoc: "left" }],
+     *             [{ infix: char("+").retn((a: number, b: number) => a + b), assoc: "left" }],
+     *         ],
+     *     })
+     */
+    export function expression<T>(table: ExpressionTable<T>): Parser<T> {
+        return table.operators.reduce(expression_level, table.atom);
+    }
+
+    function expression_level<T>(term: Parser<T>, operators: Operator<T>[]): Parser<T> {
+        const prefix = choice(operators.filter(is_prefix).map((op) => op.prefix));
+        const postfix = choice(operators.filter(is_postfix).map((op) => op.postfix));
+        const infix = operators.filter(is_infix);
+        if (prefix !== undefined || postfix !== undefined) {
+            term = unary(term, prefix, postfix);
+        }
+        if (infix.length === 0) {
+            return term;
+        }
+        const assoc = infix[0].assoc;
+        if (infix.some((op) => op.assoc !== assoc)) {
+            return mixed_level(term, infix);
+        }
+        const op = choice(infix.map((op) => op.infix))!;
+        switch (assoc) {
+            case "left":
+                return term.chainl1(op);
+            case "right":
+                return term.chainr1(op);
+            default:
+                return term
+                    .then(op.then(term).optional())
+                    .map(([left, rest]) => rest === undefined ? left : rest[0](left, rest[1]))
+                    .followedBy(op.not().expect("end of non-associative expression"));
+        }
+    }
+
+    /**
+     * the first infix operator after the term picks the associativity of the expression,
+     * the tail of one associativity is a function of the left operand
+     */
+    function mixed_level<T>(term: Parser<T>, infix: Infix<T>[]): Parser<T> {
+        const operators = (assoc: Infix<T>["assoc"]) => choice(infix.filter((op) => op.assoc === assoc).map((op) => op.infix));
+        const tail = (assoc: Infix<T>["assoc"], rest: (op: Parser<(left: T, right: T) => T>) => Parser<(left: T) => T>) => {
+            const op = operators(assoc);
+            const others = choice(infix.filter((other) => other.assoc !== assoc || assoc === "none").map((other) => other.infix));
+            return op === undefined ? undefined : rest(op).followedBy(others!.not().expect(`end of ${assoc === "none" ? "non-" : `${assoc} `}associative expression`));
+        };
+        const tails = choice([
+            tail("left", (op) => op.then(term).many1().map((rest) => (left: T) => rest.reduce((acc, [f, right]) => f(acc, right), left))),
+            tail("right", (op) => op.then(term.chainr1(op)).map(([f, right]) => (left: T) => f(left, right))),
+            tail("none", (op) => op.then(term).map(([f, right]) => (left: T) => f(left, right))),
+        ].filter((parser): parser is Parser<(left: T) => T> => parser !== undefined))!;
+        return term.then(tails.optional()).map(([left, rest]) => rest === undefined ? left : rest(left));
+    }
+
+    /**
+     * prefix operators apply from the innermost, postfix operators after them from the left
+     */
+    function unary<T>(term: Parser<T>, prefix?: Parser<(value: T) => T>, postfix?: Parser<(value: T) => T>): Parser<T> {
+        const prefixes = prefix === undefined ? always([]) : prefix.many();
+        const postfixes = postfix === undefined ? always([]) : postfix.many();
+        return prefixes.then(term).then(postfixes).map(([[pre, value], post]) => {
+            for (const op of post) {
+                value = op(value);
+            }
+            for (let i = pre.length - 1; i >= 0; --i) {
+                value = pre[i](value);
+            }
+            return value;
+        });
+    }
+
+    function choice<T>(parsers: Parser<T>[]): Parser<T> | undefined {
+        return parsers.length === 0 ? undefined : parsers.reduce((a, b) => a.or(b));
+    }
+    function is_prefix<T>(op: Operator<T>): op is Prefix<T> {
+        return (op as Prefix<T>).prefix !== undefined;
+    }
+    function is_postfix<T>(op: Operator<T>): op is Postfix<T> {
+        return (op as Postfix<T>).postfix !== undefined;
+    }
+    function is_infix<T>(op: Operator<T>): op is Infix<T> {
+        return (op as Infix<T>).infix !== undefined;
+    }
+
+    export interface LanguageDef {
+        /**
+         * start of a comment running to the end of the line, e.g. "//"
+         */
+        commentLine?: string;
+        /**
+         * delimiters of block comments, e.g. "/*" and "*\/"
+         */
+        commentStart?: string;
+        commentEnd?: string;
+        /**
+         * whether block comments may contain other block comments, defaults to false
+         */
+        nestedComments?: boolean;
+        /**
+         * first character of identifiers and reserved words, defaults to a letter or "_"
+         */
+        identStart?: Parser<string>;
+        /**
+         * following characters of identifiers and reserved words, defaults to a letter, digit or "_"
+         */
+        identLetter?: Parser<string>;
+        /**
+         * words that are not identifiers, e.g. keywords
+         */
+        reservedNames?: string[];
+    }
+
+    /**
+     * parsers of a language built by `language()`, all of them except `whitespace` skip the whitespace
+     * and comments following the token, so only the leading whitespace of the input has to be skipped explicitly:
+     * `lang.whitespace.next(program).followedBy(eof())`
+     */
+    export interface Language {
+        /**
+         * skips whitespace and comments
+         */
+        whitespace: Skip;
+        lexeme(parser: Skip): Skip;
+        lexeme<T>(parser: Parser<T>): Parser<T>;
+        /**
+         * matches "name" literally, e.g. an operator or punctuation
+         */
+        symbol(name: string): Parser<string>;
+        /**
+         * identifier that is not one of the reserved names
+         */
+        identifier: Parser<string>;
+        /**
+         * matches the reserved word "name", but not a prefix of a longer identifier
+         */
+        reserved(name: string): Parser<string>;
+        natural: Parser<number>;
+        parens<T>(parser: Parser<T>): Parser<T>;
+        braces<T>(parser: Parser<T>): Parser<T>;
+        brackets<T>(parser: Parser<T>): Parser<T>;
+        angles<T>(parser: Parser<T>): Parser<T>;
+        commaSep<T>(parser: Parser<T>): Parser<T[]>;
+        commaSep1<T>(parser: Parser<T>): Parser<T[]>;
+        semiSep<T>(parser: Parser<T>): Parser<T[]>;
+        semiSep1<T>(parser: Parser<T>): Parser<T[]>;
+    }
+
+    /**
+     * builds the token parsers of a language, in the spirit of Parsec's `Token` module:
+     *
+     *     const lang = language({ commentLine: "//", commentStart: "/*", commentEnd: "*\/", reservedNames: ["let"] });
+     *     const binding = seq(lang.reserved("let").skip(), lang.identifier, lang.symbol("=").skip(), lang.natural);
+     */
+    export function language(def: LanguageDef = {}): Language {
+        const ident_start = def.identStart || letter().or(char("_"));
+        const ident_letter = def.identLetter || letter().or(digit()).or(char("_"));
+        const reserved_names = new Set(def.reservedNames);
+
+        const trivia: Parser<any>[] = [regex(/\s+/)];
+        if (def.commentLine !== undefined) {
+            trivia.push(string(def.commentLine).then(oneOf("\r\n").not().next(any()).many()));
+        }
+        if (def.commentStart !== undefined && def.commentEnd !== undefined) {
+            trivia.push(block_comment(def.commentStart, def.commentEnd, def.nestedComments === true));
+        }
+        const whitespace = trivia.reduce((a, b) => a.or(b)).skip().many();
+
+        function lexeme(parser: Skip): Skip;
+        function lexeme<T>(parser: Parser<T>): Parser<T>;
+        function lexeme<T>(parser: Parser<T> | Skip): Parser<T> | Skip {
+            return (parser as Parser<T>).followedBy(whitespace);
+        }
+        const symbol = (name: string) => lexeme(string(name));
+
+        const word = ident_start.then(ident_letter.many()).map(([first, rest]) => first + rest.join(""));
+        /**
+         * matches a whole word, fails without consuming input unless "accept" approves it
+         */
+        const checked_word = (expected: string, accept: (text: string) => boolean, describe: (text: string) => string) => lexeme(custom<string>((source) => {
+            const pos = source.pos;
+            const reported = source.diagnostics.length;
+            const result = word.parse(source);
+            if (!result.is_ok()) {
+                return new Err(result.unwrap_err().relabel(expected).backtrack(pos));
+            }
+            const text = result.unwrap();
+            if (!accept(text)) {
+                source.rewind(pos, reported);
+                return fail(source, pos, expected, describe(text));
+            }
+            return result;
+        }));
+        const identifier = checked_word("identifier", (text) => !reserved_names.has(text), (text) => `reserved word ${describe_token(text)}`);
+        const reserved = (name: string) => checked_word(describe_token(name), (text) => text === name, describe_token);
+
+        const between = (open: string, close: string) => <T>(parser: Parser<T>) => symbol(open).next(parser).followedBy(symbol(close));
+        return {
+            whitespace,
+            lexeme,
+            symbol,
+            identifier,
+            reserved,
+            natural: lexeme(decimal()).expect("natural number"),
+            parens: between("(", ")"),
+            braces: between("{", "}"),
+            brackets: between("[", "]"),
+            angles: between("<", ">"),
+            commaSep: (parser) => parser.sepBy(symbol(",")),
+            commaSep1: (parser) => parser.sepBy1(symbol(",")),
+            semiSep: (parser) => parser.sepBy(symbol(";")),
+            semiSep1: (parser) => parser.sepBy1(symbol(";")),
+        };
+    }
+
+    function block_comment(start: string, end: string, nested: boolean): Parser<undefined> {
+        const close = string(end).expect(`end of comment ${describe_token(end)}`);
+        const comment: Parser<undefined> = lazy(() => {
+            const content = nested
+                ? comment.or(string(start).not().next(string(end).not()).next(any()).skip())
+                : string(end).not().next(any()).skip();
+            return string(start).skip().next(content.many()).next(close).retn(undefined);
+        });
+        return comment;
+    }
 }
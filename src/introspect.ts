@@ -0,0 +1,232 @@
+import { Parser, ParserNode } from ".";
+
+/**
+ * grammar expression built from the parser graph, the common ground of the exporters:
+ * - "reference": use of the rule "name"
+ * - "literal": exact "text"
+ * - "charset": one of "chars"
+ * - "terminal": input described by "label", e.g. a regular expression or a custom parser
+ * - "many1": one or more "item", separated by "separator" if present
+ * - "except": "item" unless the input matches "excluded", e.g. `char('"').not().next(any())`
+ * - "lookahead": "item" has to follow ("negative" false) or must not follow ("negative" true), nothing is consumed
+ */
+export type Expression =
+    { type: "reference", name: string } |
+    { type: "literal", text: string } |
+    { type: "charset", chars: string } |
+    { type: "terminal", label: string } |
+    { type: "empty" } |
+    { type: "sequence", items: Expression[] } |
+    { type: "choice", items: Expression[] } |
+    { type: "optional", item: Expression } |
+    { type: "many", item: Expression } |
+    { type: "many1", item: Expression, separator?: Expression } |
+    { type: "except", item: Expression, excluded: Expression } |
+    { type: "lookahead", item: Expression, negative: boolean };
+
+export interface Rule {
+    name: string;
+    expression: Expression;
+}
+
+/**
+ * rules of the grammar "parser" matches, "parser" itself is the first rule and gets the name "start" unless it is named
+ * every `named()` parser becomes a rule, so does every other parser that is part of a cycle (`lazy()` recursion),
+ * these get generated names "rule1", "rule2"...
+ * rule names are expected to be unique, parsers named alike are taken for the same rule
+ */
+export function grammarRules(parser: Parser<any>, start = "start"): Rule[] {
+    const names = collect_rules(parser, start);
+    const defined = new Set<string>();
+    const rules: Rule[] = [];
+    for (const [rule, name] of names) {
+        if (defined.has(name)) {
+            continue;
+        }
+        defined.add(name);
+        const node = rule.describe();
+        const definition = node.kind === "rule" ? node.children[0] : rule;
+        rules.push({ name, expression: new Converter(names).convert(definition, true) });
+    }
+    return rules;
+}
+
+/**
+ * finds the parsers that become rules in the order of their first use
+ */
+function collect_rules(root: Parser<any>, start: string): Map<Parser<any>, string> {
+    const names = new Map<Parser<any>, string>();
+    const visited = new Set<Parser<any>>();
+    const active = new Set<Parser<any>>();
+    const root_node = root.describe();
+    names.set(root, root_node.kind === "rule" && root_node.label !== undefined ? root_node.label : start);
+    let generated = 0;
+    const visit = (parser: Parser<any>) => {
+        if (active.has(parser)) {
+            if (!names.has(parser)) {
+                generated += 1;
+                names.set(parser, `rule${generated}`);
+            }
+            return;
+        }
+        if (visited.has(parser)) {
+            return;
+        }
+        visited.add(parser);
+        active.add(parser);
+        const node = parser.describe();
+        if (node.kind === "rule" && node.label !== undefined && !names.has(parser)) {
+            names.set(parser, node.label);
+        }
+        node.children.forEach(visit);
+        active.delete(parser);
+    };
+    visit(root);
+    return names;
+}
+
+class Converter {
+    constructor(private names: Map<Parser<any>, string>) { }
+    convert(parser: Parser<any>, definition = false): Expression {
+        const name = this.names.get(parser);
+        if (name !== undefined && !definition) {
+            return { type: "reference", name };
+        }
+        const node = parser.describe();
+        const [first, second] = node.children;
+        switch (node.kind) {
+            case "rule":
+            case "transform":
+                return this.convert(first);
+            case "literal":
+                return { type: "literal", text: label(node) };
+            case "charset":
+                return { type: "charset", chars: label(node) };
+            case "terminal":
+                return { type: "terminal", label: label(node) };
+            case "custom":
+                return { type: "terminal", label: node.label === undefined ? "custom" : node.label };
+            case "empty":
+                return { type: "empty" };
+            case "sequence":
+                return this.sequence(node);
+            case "choice":
+                return choice(node.children.map((child) => this.convert(child)));
+            case "optional":
+                return optional(this.convert(first));
+            case "many":
+                return { type: "many", item: this.convert(first) };
+            case "many1":
+                return { type: "many1", item: this.convert(first) };
+            case "repeat": {
+                const item = this.convert(first);
+                return sequence(Array.from({ length: Number(node.label) }, () => item));
+            }
+            case "chainl1":
+            case "chainr1":
+                return { type: "many1", item: this.convert(first), separator: this.convert(second) };
+            case "lookahead":
+                return { type: "lookahead", item: this.convert(first), negative: false };
+            case "not":
+                return { type: "lookahead", item: this.convert(first), negative: true };
+            case "label": {
+                // a label says more than the description of a terminal
+                const child = this.convert(first);
+                return child.type === "terminal" ? { type: "terminal", label: label(node) } : child;
+            }
+        }
+    }
+    private sequence(node: ParserNode): Expression {
+        const separated = this.separated(node);
+        if (separated !== undefined) {
+            return separated;
+        }
+        return sequence(node.children.map((child) => this.convert(child)));
+    }
+    /**
+     * `p.sepBy1(s)` is built as `p` followed by `many(s p)`, the same parser "p" on both places
+     */
+    private separated(node: ParserNode): Expression | undefined {
+        const [item, rest] = node.children;
+        if (node.children.length !== 2 || this.names.has(rest)) {
+            return undefined;
+        }
+        const many = skip_transforms(rest).describe();
+        if (many.kind !== "many") {
+            return undefined;
+        }
+        const pair = skip_transforms(many.children[0]).describe();
+        if (pair.kind !== "sequence" || pair.children.length !== 2 || pair.children[1] !== item) {
+            return undefined;
+        }
+        return { type: "many1", item: this.convert(item), separator: this.convert(pair.children[0]) };
+    }
+}
+
+function label(node: ParserNode): string {
+    return node.label === undefined ? node.kind : node.label;
+}
+
+function skip_transforms(parser: Parser<any>): Parser<any> {
+    const node = parser.describe();
+    return node.kind === "transform" ? skip_transforms(node.children[0]) : parser;
+}
+
+/**
+ * flattens nested sequences and drops empty items, a negative lookahead followed by an item becomes "except"
+ */
+function sequence(expressions: Expression[]): Expression {
+    const items: Expression[] = [];
+    for (const expression of expressions) {
+        if (expression.type === "sequence") {
+            items.push(...expression.items);
+        } else if (expression.type !== "empty") {
+            items.push(expression);
+        }
+    }
+    for (let i = items.length - 2; i >= 0; --i) {
+        const item = items[i];
+        if (item.type === "lookahead" && item.negative && items[i + 1].type !== "lookahead") {
+            items.splice(i, 2, { type: "except", item: items[i + 1], excluded: item.item });
+        }
+    }
+    if (items.length === 0) {
+        return { type: "empty" };
+    }
+    return items.length === 1 ? items[0] : { type: "sequence", items };
+}
+
+/**
+ * flattens nested choices, a choice with an empty alternative is optional
+ */
+function choice(expressions: Expression[]): Expression {
+    const items: Expression[] = [];
+    let empty = false;
+    for (const expression of expressions) {
+        if (expression.type === "choice") {
+            items.push(...expression.items);
+        } else if (expression.type === "empty") {
+            empty = true;
+        } else if (expression.type === "optional") {
+            empty = true;
+            items.push(expression.item);
+        } else {
+            items.push(expression);
+        }
+    }
+    const result: Expression = items.length === 0 ? { type: "empty" } : items.length === 1 ? items[0] : { type: "choice", items };
+    return empty ? optional(result) : result;
+}
+
+function optional(expression: Expression): Expression {
+    switch (expression.type) {
+        case "empty":
+        case "optional":
+        case "many":
+            return expression;
+        case "many1":
+            return expression.separator === undefined ? { type: "many", item: expression.item } : { type: "optional", item: expression };
+        default:
+            return { type: "optional", item: expression };
+    }
+}
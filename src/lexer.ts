@@ -0,0 +1,253 @@
+import { Parser, ParserNode, Source, ParseResult, ParseError, Span, Location } from ".";
+import { describe_token } from "./error";
+import { Ok, Err } from "./result";
+
+export interface TokenRule {
+    kind: string;
+    /**
+     * strings match literally, regular expressions are matched at the current position,
+     * parsers run over the characters and the token covers the consumed input
+     */
+    pattern: string | RegExp | Parser<any>;
+    /**
+     * the longest match wins, matches of the same length go to the rule with the highest priority
+     * and then to the rule defined first, defaults to 0
+     */
+    priority?: number;
+    /**
+     * tokens on any other channel than "default" are trivia, e.g. whitespace or comments,
+     * they are kept by `Lexer.tokenize()` but invisible to `token()`
+     */
+    channel?: string;
+}
+
+export interface LexerOptions {
+    /**
+     * tokens of the "identifier" kind with one of these texts get the kind "keyword" instead
+     */
+    keywords?: string[];
+    /**
+     * kind of the tokens that are checked against "keywords", defaults to "identifier"
+     */
+    identifier?: string;
+}
+
+export interface Token {
+    kind: string;
+    text: string;
+    channel: string;
+    span: Span;
+}
+
+interface CompiledRule {
+    kind: string;
+    match: (source: Source) => number;
+    priority: number;
+    channel: string;
+}
+
+/**
+ * splits the input into tokens, see `TokenSource` for parsing them
+ */
+export class Lexer {
+    private rules: CompiledRule[];
+    private keywords: Set<string>;
+    private identifier: string;
+    constructor(rules: TokenRule[], options: LexerOptions = {}) {
+        this.rules = rules.map((rule) => ({
+            kind: rule.kind,
+            match: compile(rule.pattern),
+            priority: rule.priority === undefined ? 0 : rule.priority,
+            channel: rule.channel === undefined ? "default" : rule.channel,
+        }));
+        this.keywords = new Set(options.keywords);
+        this.identifier = options.identifier === undefined ? "identifier" : options.identifier;
+    }
+    /**
+     * all the tokens of "input" including trivia, fails at the first character no rule matches
+     */
+    tokenize(input: string): ParseResult<Token[]> {
+        const source = new Source(input, 0);
+        const tokens: Token[] = [];
+        let pos = 0;
+        while (pos < input.length) {
+            let best: CompiledRule | undefined;
+            let best_length = 0;
+            for (const rule of this.rules) {
+                source.rewind(pos, 0);
+                const length = rule.match(source);
+                if (length > 0 && (best === undefined || length > best_length || (length === best_length && rule.priority > best.priority))) {
+                    best = rule;
+                    best_length = length;
+                }
+            }
+            if (best === undefined) {
+                return new Err(new ParseError(pos, [], describe_token(source.code_point(pos)), "invalid token"));
+            }
+            const text = input.substring(pos, pos + best_length);
+            const kind = best.kind === this.identifier && this.keywords.has(text) ? "keyword" : best.kind;
+            tokens.push({ kind, text, channel: best.channel, span: source.span(pos, pos + best_length) });
+            pos += best_length;
+        }
+        return new Ok(tokens);
+    }
+    /**
+     * tokenizes "input" and prepares the tokens for parsing
+     */
+    source(input: string): ParseResult<TokenSource> {
+        const tokens = this.tokenize(input);
+        if (!tokens.is_ok()) {
+            return new Err(tokens.unwrap_err());
+        }
+        return new Ok(new TokenSource(input, tokens.unwrap()));
+    }
+}
+
+/**
+ * length of the input matched by "pattern" at the current position of "source", 0 if it does not match
+ */
+function compile(pattern: string | RegExp | Parser<any>): (source: Source) => number {
+    if (typeof pattern === "string") {
+        return (source) => source.matches(source.pos, pattern) ? pattern.length : 0;
+    }
+    if (pattern instanceof RegExp) {
+        const sticky = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "") + "y");
+        return (source) => {
+            const match = source.exec(sticky, source.pos);
+            return match === undefined ? 0 : match[0].length;
+        };
+    }
+    return (source) => {
+        const start = source.pos;
+        return pattern.parse(source).is_ok() ? source.pos - start : 0;
+    };
+}
+
+/**
+ * source over the tokens produced by a `Lexer`, every significant token is one element of the input
+ * trivia tokens are left out, positions are token indices, see `offset()` for the position in the text
+ * `any()` and `eof()` work on tokens too, `any()` produces the text of the token,
+ * character parsers like `char()`, `string()` or `regex()` have to be replaced by `token()`
+ */
+export class TokenSource extends Source {
+    readonly tokens: Token[];
+    constructor(input: string, readonly all: Token[]) {
+        super(input, 0);
+        this.tokens = all.filter((token) => token.channel === "default");
+    }
+    next() {
+        const token = this.tokens[this.pos];
+        if (token === undefined) {
+            return "";
+        }
+        this.pos += 1;
+        return token.text;
+    }
+    at(pos: number) {
+        const token = this.tokens[pos];
+        return token === undefined ? "" : token.text;
+    }
+    code_point(pos: number) {
+        return this.at(pos);
+    }
+    get length() {
+        return this.tokens.length;
+    }
+    /**
+     * text of the tokens between "start" and "end" indices including the trivia between them,
+     * "end" is clamped to the number of tokens
+     */
+    slice(start: number, end = this.tokens.length) {
+        end = Math.min(end, this.tokens.length);
+        if (end <= start) {
+            return "";
+        }
+        return super.slice(this.offset(start), this.tokens[end - 1].span.end.offset);
+    }
+    matches(pos: number, str: string, ignore_case = false): boolean {
+        throw new TypeError("character parsers can't run over a TokenSource, use token()");
+    }
+    exec(pattern: RegExp, pos: number): RegExpExecArray | undefined {
+        throw new TypeError("character parsers can't run over a TokenSource, use token()");
+    }
+    /**
+     * offset in the text where the token at "pos" starts, the end of the text past the last token
+     */
+    offset(pos: number): number {
+        const token = this.tokens[pos];
+        return token === undefined ? super.length : token.span.start.offset;
+    }
+    location(pos = this.pos): Location {
+        const token = this.tokens[pos];
+        return token === undefined ? super.location(super.length) : token.span.start;
+    }
+    span(start: number, end = this.pos): Span {
+        end = Math.min(end, this.tokens.length);
+        if (end <= start) {
+            return { start: this.location(start), end: this.location(start) };
+        }
+        return { start: this.location(start), end: this.tokens[end - 1].span.end };
+    }
+    /**
+     * same error with positions moved from token indices to offsets in the text
+     */
+    text_error(error: ParseError): ParseError {
+        return new ParseError(
+            this.offset(error.pos), error.expected, error.found, error.message, this.offset(error.consumed), error.committed,
+        );
+    }
+}
+
+function token_source(source: Source): TokenSource {
+    if (!(source instanceof TokenSource)) {
+        throw new TypeError("token parsers require a TokenSource");
+    }
+    return source;
+}
+
+class TokenParser extends Parser<Token> {
+    private expected: string;
+    constructor(private kind: string, private text?: string) {
+        super();
+        this.expected = text === undefined ? kind : describe_token(text);
+    }
+    describe(): ParserNode {
+        return this.text === undefined
+            ? { kind: "terminal", label: this.kind, children: [] }
+            : { kind: "literal", label: this.text, children: [] };
+    }
+    parse(source: Source): ParseResult<Token> {
+        const pos = source.pos;
+        const token = token_source(source).tokens[pos];
+        if (token === undefined || token.kind !== this.kind || (this.text !== undefined && token.text !== this.text)) {
+            return new Err(new ParseError(pos, [this.expected], describe_token(source.at(pos))));
+        }
+        source.pos += 1;
+        return new Ok(token);
+    }
+}
+
+/**
+ * matches the next significant token of "kind" (and with the "text" if given) and produces it
+ * e.g. `token("number")`, `token("keyword", "if")` or `token("punctuation", "(")`
+ */
+export function token(kind: string, text?: string): Parser<Token> {
+    return new TokenParser(kind, text);
+}
+
+/**
+ * tokenizes "input" with "lexer" and runs "parser" over the tokens,
+ * errors are reported at offsets in "input" so that they work with `formatError()`
+ */
+export function parseTokens<T>(parser: Parser<T>, lexer: Lexer, input: string): ParseResult<T> {
+    const tokens = lexer.source(input);
+    if (!tokens.is_ok()) {
+        return new Err(tokens.unwrap_err());
+    }
+    const source = tokens.unwrap();
+    const result = parser.parse(source);
+    if (!result.is_ok()) {
+        return new Err(source.text_error(result.unwrap_err()));
+    }
+    return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * position in the input, "line" and "column" are 1-based, "offset" is 0-based
+ */
+export interface Location {
+    offset: number;
+    line: number;
+    column: number;
+}
+
+export interface Span {
+    start: Location;
+    end: Location;
+}
+
+export interface Spanned<T> {
+    value: T;
+    span: Span;
+}
+
+/**
+ * translates offsets into lines and columns
+ * "\r\n", "\r" and "\n" are all treated as a single line break
+ */
+export class LineMap {
+    private starts: number[] = [0];
+    constructor(private input: string) {
+        for (let i = 0; i < input.length; ++i) {
+            const ch = input.charAt(i);
+            if (ch === "\r" && input.charAt(i + 1) === "\n") {
+                ++i;
+                this.starts.push(i + 1);
+            } else if (ch === "\r" || ch === "\n") {
+                this.starts.push(i + 1);
+            }
+        }
+    }
+    /**
+     * number of lines in the input, empty input has a single line
+     */
+    get lines() {
+        return this.starts.length;
+    }
+    location(offset: number): Location {
+        let low = 0;
+        let high = this.starts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.starts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return { offset, line: low + 1, column: offset - this.starts[low] + 1 };
+    }
+    /**
+     * offset of the first character of "line" (1-based)
+     */
+    line_start(line: number): number {
+        return this.starts[line - 1];
+    }
+    /**
+     * offset right after the last character of "line" (1-based), line break is not included
+     */
+    line_end(line: number): number {
+        if (line >= this.starts.length) {
+            return this.input.length;
+        }
+        const next = this.starts[line];
+        if (next >= 2 && this.input.charAt(next - 2) === "\r" && this.input.charAt(next - 1) === "\n") {
+            return next - 2;
+        }
+        return next - 1;
+    }
+}
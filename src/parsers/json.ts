@@ -0,0 +1,115 @@
+import { any, string, oneOf, regex, lazy, eof, always, alt, grammar, xidStart, xidContinue, Parser, Skip } from "..";
+import { string_literal } from "./string_literal";
+
+/**
+ * value produced by `json()`, arrays and objects are interfaces so that the type can refer to itself
+ */
+export type JsonValue = null | boolean | number | string | JsonArray | JsonObject;
+export interface JsonArray extends Array<JsonValue> { }
+export interface JsonObject {
+    [key: string]: JsonValue;
+}
+
+/**
+ * - "json": RFC 8259
+ * - "jsonc": json with comments and trailing commas, e.g. `tsconfig.json`
+ * - "json5": jsonc with unquoted keys, single quoted strings with js escapes and js numbers
+ *   (hexadecimal, "+" sign, ".5" and "5.", "Infinity" and "NaN")
+ */
+export type JsonProfile = "json" | "jsonc" | "json5";
+
+export interface JsonOptions {
+    /**
+     * defaults to "json"
+     */
+    profile?: JsonProfile;
+    /**
+     * whether "//" and "/* *\/" comments are allowed wherever whitespace is, defaults to the profile
+     */
+    comments?: boolean;
+    /**
+     * whether the last element of an array or object may be followed by ",", defaults to the profile
+     */
+    trailingCommas?: boolean;
+    /**
+     * whether object keys may be identifiers, e.g. `{ key: 1 }`, defaults to the profile
+     */
+    unquotedKeys?: boolean;
+}
+
+function json_whitespace(profile: JsonProfile, comments: boolean): Skip {
+    // JSON5 allows any JavaScript whitespace, JSON only these four characters
+    const trivia: Parser<any>[] = [profile === "json5" ? regex(/\s+/) : regex(/[ \t\n\r]+/)];
+    if (comments) {
+        const close = string("*/").expect(`end of comment "*/"`);
+        trivia.push(string("//").then(oneOf("\r\n").not().next(any()).many()));
+        trivia.push(string("/*").next(string("*/").not().next(any()).many()).next(close));
+    }
+    return trivia.reduce((a, b) => a.or(b)).skip().many().named("ws");
+}
+
+/**
+ * sets "key" as an own property, so that a "__proto__" key does not replace the prototype
+ */
+function to_object(members: [string, JsonValue][]): JsonObject {
+    const object: JsonObject = {};
+    for (const [key, value] of members) {
+        Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+    }
+    return object;
+}
+
+/**
+ * whole JSON document surrounded by optional whitespace, produces the same value as `JSON.parse()`,
+ * e.g. `json({ profile: "jsonc" })` for configuration files with comments
+ * duplicate keys are allowed, the last one wins
+ */
+export function json(options: JsonOptions = {}): Parser<JsonValue> {
+    const profile = options.profile || "json";
+    const extended = profile !== "json";
+    const comments = options.comments === undefined ? extended : options.comments;
+    const trailing_commas = options.trailingCommas === undefined ? extended : options.trailingCommas;
+    const unquoted_keys = options.unquotedKeys === undefined ? profile === "json5" : options.unquotedKeys;
+
+    const whitespace = json_whitespace(profile, comments);
+    const lexeme = <T>(parser: Parser<T>) => parser.followedBy(whitespace);
+    const symbol = (name: string) => lexeme(string(name));
+    const comma = symbol(",");
+
+    const str = lexeme(profile === "json5" ? string_literal({ profile: "js", quotes: ["\"", "'"] }) : string_literal()).named("string");
+    // JSON5 numbers are those of ES5, without the octal and binary literals of later editions
+    const num = lexeme(profile === "json5"
+        ? regex(/[+-]?0[oObB]/).not().next(grammar.number({ profile: "js", separators: false }))
+        : grammar.number({ profile: "json" })).named("number");
+    // tslint:disable-next-line:no-null-keyword
+    const literal = alt(symbol("true").retn(true), symbol("false").retn(false), symbol("null").retn(null));
+
+    /**
+     * "elements" separated by commas and enclosed in "open" and "close", optionally with a trailing comma
+     */
+    function list<T>(open: string, element: Parser<T>, close: string): Parser<T[]> {
+        const end = symbol(close);
+        if (!trailing_commas) {
+            return symbol(open).next(element.sepBy(comma)).followedBy(end);
+        }
+        const elements = element.sepBy1(comma.followedBy(end.not()).attempt()).followedBy(comma.optional());
+        return symbol(open).next(elements.or(always([]))).followedBy(end);
+    }
+
+    const identifier = xidStart().or(oneOf("$_")).then(xidContinue().or(oneOf("$\u200c\u200d")).many())
+        .map(([first, rest]) => first + rest.join(""));
+    const key = unquoted_keys ? str.or(lexeme(identifier)).expect("key") : str;
+
+    const value: Parser<JsonValue> = lazy(() => alt<Parser<JsonValue>[]>(
+        object,
+        array,
+        str,
+        num,
+        literal,
+    ).expect("value")).named("value");
+    const array: Parser<JsonValue> = list("[", value, "]").named("array");
+    const member = key.followedBy(symbol(":")).then(value).named("member");
+    const object: Parser<JsonValue> = list("{", member, "}").map(to_object).named("object");
+
+    return whitespace.next(value).followedBy(eof()).named("json");
+}
@@ -1,10 +1,10 @@
-import { char, any, Parser } from "..";
+import { char, string, Parser } from "..";
 
 const CR = char("\r");
 const LF = char("\n");
 
 export function new_line(): Parser<string> {
-    return CR.then(LF).join() // windows
+    return string("\r\n") // windows
         .or(CR)  // mac
         .or(LF); // unix
 }
\ No newline at end of file
@@ -1,8 +1,130 @@
-import { char, any, Parser } from "..";
-
-export function string_literal(boundary: Parser<string> = char("\""), escape_character: Parser<string> = char("\\")): Parser<string> {
-    const escaped_character = escape_character.next(any()).or(any());
-    return boundary
-        .next(escaped_character.until(boundary.skip()))
-        .join();
-}
\ No newline at end of file
+import { char, any, string, oneOf, regex, custom, success, fail, grammar, Parser, ParseError } from "..";
+import { new_line } from "./new_line";
+import { Err } from "../result";
+import { describe_token } from "../error";
+
+export interface StringLiteralOptions {
+    /**
+     * escape sequences and default quotes to follow, defaults to "json":
+     * - "json": `\" \\ \/ \b \f \n \r \t \uXXXX`, control characters have to be escaped
+     * - "js": json escapes and `\' \v \0 \xHH \u{X...}`, line continuations, other characters escape themselves
+     */
+    profile?: "json" | "js";
+    /**
+     * delimiters of the string, defaults to `"` for json and `"`, `'` and "`" for js
+     * "`" strings (templates without interpolation) and multi-character delimiters like `"""` may span lines
+     */
+    quotes?: string[];
+    /**
+     * no escape sequences, a backslash is an ordinary character
+     */
+    raw?: boolean;
+}
+
+const JSON_ESCAPES: { [escape: string]: string } = { "\"": "\"", "\\": "\\", "/": "/", "b": "\b", "f": "\f", "n": "\n", "r": "\r", "t": "\t" };
+const JS_ESCAPES: { [escape: string]: string } = { ...JSON_ESCAPES, "'": "'", "v": "\v" };
+
+const hex_digit = oneOf("0123456789abcdefABCDEF").expect("hex digit");
+const from_hex = (digits: string[]) => String.fromCharCode(parseInt(digits.join(""), 16));
+
+/**
+ * `\uXXXX`, surrogate pairs like `\uD83D\uDE00` decode to a single code point
+ */
+const unicode_escape = char("u").next(hex_digit.times(4)).map(from_hex);
+const hex_escape = char("x").next(hex_digit.times(2)).map(from_hex);
+const braced_digits = string("u{").next(hex_digit.many1().join()).followedBy(char("}"));
+const code_point_escape = custom<string>((source) => {
+    const pos = source.pos;
+    const result = braced_digits.parse(source);
+    if (!result.is_ok()) {
+        return result.unwrap_err().is_consumed(pos) ? result : fail(source, pos, "escape sequence");
+    }
+    const code = parseInt(result.unwrap(), 16);
+    if (code > 0x10ffff) {
+        const text = source.slice(pos, source.pos);
+        source.pos = pos;
+        return new Err(new ParseError(pos, [], describe_token(text), "code point out of range", pos + text.length));
+    }
+    return success(String.fromCodePoint(code));
+});
+
+function simple_escape(escapes: { [escape: string]: string }): Parser<string> {
+    return oneOf(Object.keys(escapes).join("")).map((escape) => escapes[escape]);
+}
+
+/**
+ * escape sequence without the backslash
+ */
+function escape_sequence(profile: "json" | "js"): Parser<string> {
+    if (profile === "json") {
+        return simple_escape(JSON_ESCAPES).or(unicode_escape).expect("escape sequence");
+    }
+    const line_continuation = new_line().or(oneOf("\u2028\u2029")).retn("");
+    const null_escape = char("0").followedBy(grammar.digit().not()).retn("\0");
+    const identity_escape = oneOf("123456789xu").not().next(any());
+    // out of range code points are reported as such, not as a missing escape sequence
+    return code_point_escape.or(
+        simple_escape(JS_ESCAPES)
+            .or(line_continuation)
+            .or(null_escape)
+            .or(hex_escape)
+            .or(unicode_escape)
+            .or(identity_escape)
+            .expect("escape sequence"),
+    );
+}
+
+/**
+ * `${` starts an interpolation in JS templates, that's an error rather than two characters of the string
+ */
+const no_interpolation = custom<string>((source) => {
+    const pos = source.pos;
+    if (source.matches(pos, "${")) {
+        return new Err(new ParseError(pos, [], describe_token("${"), "template interpolation is not supported", pos + 1));
+    }
+    return fail(source, pos);
+});
+
+function quoted(quote: string, profile: "json" | "js", raw: boolean): Parser<string> {
+    const delimiter = string(quote);
+    const multiline = quote === "`" || quote.length > 1;
+    let plain = delimiter.not().next(any());
+    if (!multiline) {
+        const forbidden = profile === "json" ? regex(/[\u0000-\u001f]/) : oneOf("\r\n");
+        plain = delimiter.not().next(forbidden.not()).next(any());
+    }
+    let character = raw ? plain : char("\\").next(escape_sequence(profile)).or(plain);
+    if (quote === "`") {
+        character = no_interpolation.or(character);
+    }
+    return delimiter.next(character.many()).followedBy(delimiter).map((parts) => parts.join(""));
+}
+
+/**
+ * quoted string, produces its content with the escape sequences decoded
+ * a bad escape sequence fails at the character following the backslash
+ */
+export function string_literal(options?: StringLiteralOptions): Parser<string>;
+/**
+ * string between two "boundary" parsers, the "escape_character" keeps the character following it as is
+ * @deprecated use the options
+ */
+export function string_literal(boundary: Parser<string>, escape_character?: Parser<string>): Parser<string>;
+export function string_literal(options: StringLiteralOptions | Parser<string> = {}, escape_character: Parser<string> = char("\\")): Parser<string> {
+    if (options instanceof Parser) {
+        const escaped_character = escape_character.next(any()).or(any());
+        return options
+            .next(escaped_character.until(options.skip()))
+            .join();
+    }
+    const profile = options.profile || "json";
+    const quotes = options.quotes || (profile === "json" ? ["\""] : ["\"", "'", "`"]);
+    const raw = options.raw === true;
+    // longer delimiters first, so that `"""` is not taken for an empty `""` string
+    return quotes
+        .slice()
+        .sort((a, b) => b.length - a.length)
+        .map((quote) => quoted(quote, profile, raw))
+        .reduce((a, b) => a.or(b))
+        .expect("string");
+}
@@ -0,0 +1,203 @@
+import { Parser } from ".";
+import { Expression, grammarRules } from "./introspect";
+import { expression } from "./ebnf";
+
+export interface RailroadOptions {
+    /**
+     * name of the rule of the exported parser unless it is named, defaults to "start"
+     */
+    start?: string;
+    /**
+     * title of the HTML document, defaults to "Grammar"
+     */
+    title?: string;
+}
+
+/**
+ * HTML document with a railroad diagram for every rule of the grammar of "parser",
+ * references to other rules link to their diagrams
+ */
+export function railroad(parser: Parser<any>, options: RailroadOptions = {}): string {
+    const title = escape(options.title === undefined ? "Grammar" : options.title);
+    const rules = grammarRules(parser, options.start).map((rule) => {
+        const name = escape(rule.name);
+        return `<h2 id="${name}">${name}</h2>\n${railroadDiagram(rule.expression)}\n`;
+    });
+    return `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${title}</title>\n</head>\n<body>\n<h1>${title}</h1>\n${rules.join("")}</body>\n</html>\n`;
+}
+
+/**
+ * standalone SVG railroad diagram of "expr"
+ */
+export function railroadDiagram(expr: Expression): string {
+    const box = diagram(expr);
+    const width = box.width + 2 * (MARGIN + END);
+    // room for the bars at both ends
+    const up = Math.max(box.up, 10);
+    const down = Math.max(box.down, 10);
+    const height = up + down + 2 * MARGIN;
+    const x = MARGIN;
+    const y = MARGIN + up;
+    const ends = `<path d="M${x} ${y - 10}v20M${x} ${y}h${END}M${x + END + box.width} ${y}h${END}M${x + 2 * END + box.width} ${y - 10}v20" ${LINE}/>`;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `${ends}${box.draw(x + END, y)}</svg>`;
+}
+
+/**
+ * part of a diagram, entered on the left and left on the right at its baseline,
+ * "up" and "down" are its extents above and below the baseline
+ */
+interface Box {
+    width: number;
+    up: number;
+    down: number;
+    draw(x: number, y: number): string;
+}
+
+const MARGIN = 10;
+const END = 20;
+const ARC = 10;
+const GAP = 10;
+const VERTICAL_GAP = 8;
+const CHAR_WIDTH = 8.5;
+const LINE = `fill="none" stroke="black" stroke-width="1.5"`;
+
+function escape(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function line(x: number, y: number, width: number) {
+    return width > 0 ? `<path d="M${x} ${y}h${width}" ${LINE}/>` : "";
+}
+
+function diagram(expr: Expression): Box {
+    switch (expr.type) {
+        case "reference":
+            return label_box(expr.name, "rect", `#${expr.name}`);
+        case "literal":
+            return label_box(JSON.stringify(expr.text), "rounded");
+        case "charset":
+        case "terminal":
+        case "empty":
+            return label_box(expression(expr), "rounded");
+        case "sequence":
+            return sequence(expr.items.map(diagram));
+        case "choice":
+            return choice(expr.items.map(diagram));
+        case "optional":
+            return choice([sequence([]), diagram(expr.item)]);
+        case "many":
+            return choice([sequence([]), loop(diagram(expr.item), sequence([]))]);
+        case "many1":
+            return loop(diagram(expr.item), expr.separator === undefined ? sequence([]) : diagram(expr.separator));
+        case "except":
+            return sequence([diagram(expr.item), label_box(`except ${expression(expr.excluded)}`, "comment")]);
+        case "lookahead":
+            return label_box(`${expr.negative ? "not followed by" : "followed by"} ${expression(expr.item)}`, "comment");
+    }
+}
+
+function label_box(text: string, shape: "rect" | "rounded" | "comment", href?: string): Box {
+    const width = Math.ceil(Array.from(text).length * CHAR_WIDTH) + (shape === "comment" ? 0 : 2 * GAP);
+    const height = shape === "comment" ? 8 : 11;
+    return {
+        width,
+        up: height,
+        down: height,
+        draw: (x, y) => {
+            const attributes = shape === "comment"
+                ? `font-style="italic"`
+                : `font-weight="bold"`;
+            let svg = shape === "comment"
+                ? line(x, y, width)
+                : `<rect x="${x}" y="${y - 11}" width="${width}" height="22" rx="${shape === "rounded" ? 10 : 0}" ${LINE}/>`;
+            const text_y = shape === "comment" ? y - 4 : y + 4;
+            const label = `<text x="${x + width / 2}" y="${text_y}" text-anchor="middle" font-family="monospace" font-size="14" ${attributes}>${escape(text)}</text>`;
+            svg += href === undefined ? label : `<a href="${escape(href)}">${label}</a>`;
+            return svg;
+        },
+    };
+}
+
+function sequence(items: Box[]): Box {
+    const width = items.reduce((sum, item) => sum + item.width, 0) + GAP * Math.max(0, items.length - 1);
+    return {
+        width,
+        up: Math.max(0, ...items.map((item) => item.up)),
+        down: Math.max(0, ...items.map((item) => item.down)),
+        draw: (x, y) => {
+            let svg = "";
+            items.forEach((item, i) => {
+                if (i > 0) {
+                    svg += line(x, y, GAP);
+                    x += GAP;
+                }
+                svg += item.draw(x, y);
+                x += item.width;
+            });
+            return svg;
+        },
+    };
+}
+
+/**
+ * the first item on the baseline, the others below it
+ */
+function choice(items: Box[]): Box {
+    const inner = Math.max(...items.map((item) => item.width));
+    const offsets = [0];
+    let down = items[0].down;
+    for (const item of items.slice(1)) {
+        const offset = Math.max(down + VERTICAL_GAP + item.up, offsets[offsets.length - 1] + 2 * ARC);
+        offsets.push(offset);
+        down = offset + item.down;
+    }
+    return {
+        width: inner + 4 * ARC,
+        up: items[0].up,
+        down,
+        draw: (x, y) => {
+            let svg = "";
+            items.forEach((item, i) => {
+                const item_x = x + 2 * ARC;
+                const item_y = y + offsets[i];
+                if (i === 0) {
+                    svg += line(x, y, 2 * ARC);
+                } else {
+                    const drop = offsets[i] - 2 * ARC;
+                    svg += `<path d="M${x} ${y}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}v${drop}a${ARC} ${ARC} 0 0 0 ${ARC} ${ARC}" ${LINE}/>`;
+                    svg += `<path d="M${item_x + inner} ${item_y}a${ARC} ${ARC} 0 0 0 ${ARC} ${-ARC}v${-drop}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}" ${LINE}/>`;
+                }
+                svg += item.draw(item_x, item_y);
+                svg += line(item_x + item.width, item_y, inner - item.width + (i === 0 ? 2 * ARC : 0));
+            });
+            return svg;
+        },
+    };
+}
+
+/**
+ * "item" on the baseline, the way back below it goes through "separator"
+ */
+function loop(item: Box, separator: Box): Box {
+    const inner = Math.max(item.width, separator.width);
+    const offset = Math.max(item.down + VERTICAL_GAP + separator.up, 2 * ARC);
+    return {
+        width: inner + 4 * ARC,
+        up: item.up,
+        down: offset + separator.down,
+        draw: (x, y) => {
+            const left = x + 2 * ARC;
+            const right = left + inner;
+            const back_y = y + offset;
+            const rise = offset - 2 * ARC;
+            let svg = line(x, y, 2 * ARC) + item.draw(left, y) + line(left + item.width, y, inner - item.width + 2 * ARC);
+            svg += `<path d="M${right} ${y}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}v${rise}a${ARC} ${ARC} 0 0 1 ${-ARC} ${ARC}" ${LINE}/>`;
+            svg += `<path d="M${left} ${back_y}a${ARC} ${ARC} 0 0 1 ${-ARC} ${-ARC}v${-rise}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}" ${LINE}/>`;
+            const separator_x = left + (inner - separator.width) / 2;
+            svg += line(left, back_y, separator_x - left) + separator.draw(separator_x, back_y);
+            svg += line(separator_x + separator.width, back_y, right - separator_x - separator.width);
+            return svg;
+        },
+    };
+}
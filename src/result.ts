@@ -30,7 +30,7 @@ export class Ok<T, E> implements IResult<T, E> {
         return new Ok<T2, E>(mapper(this.value));
     }
     map_err<E2>(mapper: (error: E) => E2): Result<T, E2> {
-        return self as any;
+        return this as any;
     }
     and_then<U>(mapper: (value: T) => Result<U, E>): Result<U, E> {
         return mapper(this.value);
@@ -0,0 +1,401 @@
+import { StringDecoder } from "string_decoder";
+import { Parser, Source, SourceOptions, ParseResult, ParseError, Location, Execution } from ".";
+import { LineMap } from "./location";
+import { Ok, Err } from "./result";
+
+/**
+ * thrown when a parser reads past the buffered input of a stream that is not closed yet
+ */
+class Incomplete { }
+const INCOMPLETE = new Incomplete();
+
+/**
+ * options of a `StreamParser`, the chunks can't be normalized on their own
+ */
+export type StreamOptions = Omit<SourceOptions, "normalize">;
+
+/**
+ * buffered part of a stream, offsets stay absolute to the whole stream
+ * reading past the buffered input suspends the parse until more input is fed, see `StreamParser`
+ */
+export class StreamSource extends Source {
+    private lines?: LineMap;
+    constructor(private buffer: string, readonly base: number, private base_location: Location, public closed: boolean, options: StreamOptions = {}) {
+        super(buffer, base, options);
+    }
+    /**
+     * appends "text" to the buffered input
+     */
+    append(text: string) {
+        this.buffer += text;
+        this.lines = undefined;
+    }
+    next() {
+        const ch = this.unicode ? this.code_point(this.pos) : this.at(this.pos);
+        if (ch === "" && !this.closed) {
+            throw INCOMPLETE;
+        }
+        this.pos += ch.length;
+        return ch;
+    }
+    at(pos: number) {
+        return this.buffer.charAt(pos - this.base);
+    }
+    code_point(pos: number) {
+        const index = pos - this.base;
+        const code = this.buffer.charCodeAt(index);
+        // a high surrogate at the end of the buffer may still get its pair
+        if (!this.closed && (index >= this.buffer.length || (index === this.buffer.length - 1 && code >= 0xd800 && code < 0xdc00))) {
+            throw INCOMPLETE;
+        }
+        const point = this.buffer.codePointAt(index);
+        return point === undefined ? "" : String.fromCodePoint(point);
+    }
+    get length() {
+        return this.base + this.buffer.length;
+    }
+    /**
+     * suspends the parse when the buffered input is a prefix of "str"
+     */
+    matches(pos: number, str: string, ignore_case = false) {
+        const available = this.length - pos;
+        if (!this.closed && available < str.length) {
+            if (super.matches(pos, str.substring(0, available), ignore_case)) {
+                throw INCOMPLETE;
+            }
+            return false;
+        }
+        return super.matches(pos, str, ignore_case);
+    }
+    /**
+     * suspends the parse while the rest of the buffered input could be the beginning of a match,
+     * with or without a shorter match already, e.g. `/\d+(?:e\d+)?/` waits after "12e" until a digit or another
+     * character follows, so a match is only taken once the input after it rules out a longer one
+     */
+    exec(pattern: RegExp, pos: number) {
+        pattern.lastIndex = pos - this.base;
+        const match = pattern.exec(this.buffer) || undefined;
+        if (this.closed) {
+            return match;
+        }
+        const prefix = prefix_pattern(pattern);
+        prefix.lastIndex = pos - this.base;
+        if (prefix.test(this.buffer)) {
+            throw INCOMPLETE;
+        }
+        return match;
+    }
+    slice(start: number, end = this.length) {
+        return this.buffer.substring(Math.max(0, start - this.base), end - this.base);
+    }
+    location(pos = this.pos): Location {
+        if (this.lines === undefined) {
+            this.lines = new LineMap(this.buffer);
+        }
+        const { line, column } = this.lines.location(pos - this.base);
+        return line === 1
+            ? { offset: pos, line: this.base_location.line, column: this.base_location.column + column - 1 }
+            : { offset: pos, line: this.base_location.line + line - 1, column };
+    }
+}
+
+/**
+ * end of input, also with the "m" flag
+ */
+const END = "(?![^])";
+
+/**
+ * part of a regular expression
+ */
+interface Piece {
+    /**
+     * matches what the part matches, captures are left out and backreferences match anything
+     */
+    text: string;
+    /**
+     * matches the beginning of a match of the part up to the end of input
+     */
+    partial: string;
+}
+
+const prefix_patterns = new WeakMap<RegExp, RegExp>();
+
+/**
+ * sticky pattern matching the rest of the input if it is the beginning of a match of "pattern"
+ * assertions that could turn either way with more input, e.g. `\b` or a negative lookahead, are taken to hold,
+ * so it may match where more input still cannot complete a match
+ */
+function prefix_pattern(pattern: RegExp): RegExp {
+    let prefix = prefix_patterns.get(pattern);
+    if (prefix === undefined) {
+        const piece = new RegexPrefix(pattern.source, pattern.unicode).parse();
+        prefix = new RegExp(piece.partial, pattern.flags.replace(/[gy]/g, "") + "y");
+        prefix_patterns.set(pattern, prefix);
+    }
+    return prefix;
+}
+
+/**
+ * rewrites the source of a regular expression into its `Piece`
+ */
+class RegexPrefix {
+    private pos = 0;
+    constructor(private source: string, private unicode: boolean) { }
+    parse(): Piece {
+        return this.alternation();
+    }
+    private alternation(): Piece {
+        const alternatives = [this.sequence()];
+        while (this.source.charAt(this.pos) === "|") {
+            this.pos += 1;
+            alternatives.push(this.sequence());
+        }
+        if (alternatives.length === 1) {
+            return alternatives[0];
+        }
+        return {
+            text: `(?:${alternatives.map((alternative) => alternative.text).join("|")})`,
+            partial: `(?:${alternatives.map((alternative) => alternative.partial).join("|")})`,
+        };
+    }
+    /**
+     * the beginning of a sequence is the beginning of its first item, or the whole first item followed by
+     * the beginning of the rest
+     */
+    private sequence(): Piece {
+        const items: Piece[] = [];
+        while (this.pos < this.source.length && this.source.charAt(this.pos) !== "|" && this.source.charAt(this.pos) !== ")") {
+            items.push(this.quantified());
+        }
+        let partial = END;
+        for (let i = items.length - 1; i >= 0; i -= 1) {
+            partial = i === items.length - 1 ? items[i].partial : `(?:${items[i].partial}|${items[i].text}${partial})`;
+        }
+        return { text: items.map((item) => item.text).join(""), partial };
+    }
+    private quantified(): Piece {
+        const atom = this.atom();
+        const quantifier = /^(?:[*+?]|\{(\d+)(?:(,)(\d*))?\})\??/.exec(this.source.substring(this.pos)) || undefined;
+        if (quantifier === undefined) {
+            return atom;
+        }
+        this.pos += quantifier[0].length;
+        let max = Infinity;
+        if (quantifier[0][0] === "?") {
+            max = 1;
+        } else if (quantifier[1] !== undefined && (quantifier[2] === undefined || quantifier[3] !== "")) {
+            max = Number(quantifier[2] === undefined ? quantifier[1] : quantifier[3]);
+        }
+        const text = `(?:${atom.text})${quantifier[0]}`;
+        if (max === 0) {
+            return { text, partial: END };
+        }
+        if (max === 1) {
+            return { text, partial: atom.partial };
+        }
+        return { text, partial: `(?:${atom.text})${max === Infinity ? "*" : `{0,${max - 1}}`}${atom.partial}` };
+    }
+    private atom(): Piece {
+        const ch = this.source.charAt(this.pos);
+        switch (ch) {
+            case "(":
+                return this.group();
+            case "[":
+                return character(this.char_class());
+            case "\\":
+                return this.escape();
+            case "^":
+                this.pos += 1;
+                return { text: "^", partial: `^${END}` };
+            case "$":
+                this.pos += 1;
+                return { text: "$", partial: END };
+            case ".":
+                this.pos += 1;
+                return character(".");
+            default: {
+                const literal = this.unicode ? String.fromCodePoint(this.source.codePointAt(this.pos) as number) : ch;
+                this.pos += literal.length;
+                return character("{}]".includes(literal) ? `\\${literal}` : literal);
+            }
+        }
+    }
+    private group(): Piece {
+        const opening = (/^\((?:\?(?:[:=!]|<[=!]|<[^>]*>))?/.exec(this.source.substring(this.pos)) as RegExpExecArray)[0];
+        this.pos += opening.length;
+        const inner = this.alternation();
+        // closing parenthesis
+        this.pos += 1;
+        switch (opening) {
+            case "(?=":
+                return { text: `(?:(?=${inner.text})|(?=${inner.partial}))`, partial: END };
+            case "(?!":
+                return { text: "", partial: END };
+            case "(?<=":
+            case "(?<!":
+                // the input before is complete
+                return { text: `${opening}${inner.text})`, partial: `${opening}${inner.text})${END}` };
+            default:
+                return { text: `(?:${inner.text})`, partial: `(?:${inner.partial})` };
+        }
+    }
+    private char_class(): string {
+        const start = this.pos;
+        this.pos += 1;
+        while (this.pos < this.source.length && this.source.charAt(this.pos) !== "]") {
+            this.pos += this.source.charAt(this.pos) === "\\" ? 2 : 1;
+        }
+        this.pos += 1;
+        return this.source.substring(start, this.pos);
+    }
+    private escape(): Piece {
+        const rest = this.source.substring(this.pos);
+        const backreference = /^\\(?:[1-9]\d*|k<[^>]*>)/.exec(rest) || undefined;
+        if (backreference !== undefined) {
+            this.pos += backreference[0].length;
+            return { text: "[^]*", partial: `[^]*${END}` };
+        }
+        if (rest.startsWith("\\b") || rest.startsWith("\\B")) {
+            this.pos += 2;
+            return { text: `(?:${rest.substring(0, 2)}|${END})`, partial: END };
+        }
+        const escape = (this.unicode
+            ? /^\\(?:[pP]\{[^}]*\}|u\{[0-9a-fA-F]+\}|u[dD][89abAB][0-9a-fA-F]{2}\\u[dD][c-fC-F][0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[a-zA-Z]|[^])/
+            : /^\\(?:u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[a-zA-Z]|[^])/).exec(rest) as RegExpExecArray;
+        this.pos += escape[0].length;
+        return character(escape[0]);
+    }
+}
+
+/**
+ * piece matching a single character
+ */
+function character(text: string): Piece {
+    return { text, partial: `(?:${text})?${END}` };
+}
+
+/**
+ * applies "parser" repeatedly to a stream of input fed in chunks, e.g. to parse log records one by one
+ * a record that reaches the end of the buffered input suspends with the combinators running on their own stack,
+ * see `Execution`, and resumes where it stopped once more input arrives
+ * the input of completed records is dropped, only the record being parsed is kept in memory, as its combinators
+ * may still go back as far as its start
+ *
+ * a combinator that reads the input by itself rather than through the parsers it runs, e.g. `recover()` skipping
+ * to its "sync" parser, can't be suspended: the record is then parsed again from its start with more input
+ */
+export class StreamParser<T> {
+    private source: StreamSource;
+    private execution?: Execution<T>;
+    private decoder = new StringDecoder("utf8");
+    constructor(private parser: Parser<T>, private on_value: (value: T) => void, private options: StreamOptions = {}) {
+        this.source = new StreamSource("", 0, { offset: 0, line: 1, column: 1 }, false, options);
+    }
+    /**
+     * appends "chunk" to the buffered input and parses all the records it completes
+     */
+    feed(chunk: string | Buffer): ParseResult<undefined> {
+        this.source.append(typeof chunk === "string" ? chunk : this.decoder.write(chunk));
+        return this.drain();
+    }
+    /**
+     * marks the end of the stream, the remaining input has to consist of complete records
+     */
+    close(): ParseResult<undefined> {
+        this.source.append(this.decoder.end());
+        this.source.closed = true;
+        return this.drain();
+    }
+    private drain(): ParseResult<undefined> {
+        while (this.execution !== undefined || this.source.pos < this.source.length) {
+            if (this.execution === undefined) {
+                this.execution = new Execution(this.parser, this.source);
+            }
+            let result: ParseResult<T>;
+            try {
+                result = this.execution.resume();
+            } catch (e) {
+                if (e !== INCOMPLETE || !this.execution.suspended) {
+                    this.restart();
+                }
+                if (e === INCOMPLETE) {
+                    break;
+                }
+                throw e;
+            }
+            this.execution = undefined;
+            if (!result.is_ok()) {
+                this.restart();
+                return new Err(result.unwrap_err());
+            }
+            if (this.source.pos === this.source.base) {
+                return new Err(new ParseError(this.source.pos, [], undefined, "stream record parser did not consume any input"));
+            }
+            this.source = this.record_source(this.source.pos);
+            this.on_value(result.unwrap());
+        }
+        return new Ok(undefined);
+    }
+    /**
+     * source of the buffered input from "pos" on, a record starting there is parsed from scratch
+     */
+    private record_source(pos: number): StreamSource {
+        return new StreamSource(this.source.slice(pos), pos, this.source.location(pos), this.source.closed, this.options);
+    }
+    /**
+     * stops the parse of the current record, it starts over with the next input
+     */
+    private restart() {
+        if (this.execution !== undefined) {
+            this.execution.close();
+            this.execution = undefined;
+        }
+        this.source = this.record_source(this.source.base);
+    }
+}
+
+/**
+ * feeds "readable" to a `StreamParser`, resolves once the stream ends or the first parse error occurs
+ * rejects with the error of "readable" or an exception of "parser" or "on_value"
+ */
+export function parseReadable<T>(
+    parser: Parser<T>, readable: NodeJS.ReadableStream, on_value: (value: T) => void, options: StreamOptions = {},
+): Promise<ParseResult<undefined>> {
+    return new Promise((resolve, reject) => {
+        const stream = new StreamParser(parser, on_value, options);
+        // only the listeners added here are removed, the caller may have its own
+        const on_data = (chunk: string | Buffer) => {
+            try {
+                const result = stream.feed(chunk);
+                if (!result.is_ok()) {
+                    finish(result);
+                }
+            } catch (e) {
+                on_error(e as Error);
+            }
+        };
+        const on_end = () => {
+            try {
+                finish(stream.close());
+            } catch (e) {
+                on_error(e as Error);
+            }
+        };
+        const on_error = (error: Error) => {
+            detach();
+            reject(error);
+        };
+        const detach = () => {
+            readable.removeListener("data", on_data);
+            readable.removeListener("end", on_end);
+            readable.removeListener("error", on_error);
+        };
+        const finish = (result: ParseResult<undefined>) => {
+            detach();
+            resolve(result);
+        };
+        readable.on("data", on_data);
+        readable.on("end", on_end);
+        readable.on("error", on_error);
+    });
+}
@@ -1,29 +1,55 @@
-import { Parser, Source, ParseResult, char, eof, seq } from ".";
+import {
+    Parser, Source, SourceOptions, ParseResult, ParseError, char, eof, seq, string, oneOf, grammar, formatError, lazy, recover, run, always,
+    any, letter, unicodeClass, charClass, xidStart, xidContinue, regex, regexMatch, alt,
+    struct, gen, custom, fromFunction, success, fail, execute,
+} from ".";
 import { deepEqual } from "assert";
+import { PassThrough } from "stream";
+import * as fs from "fs";
+import * as path from "path";
 
 import { string_literal } from "./parsers/string_literal";
+import { json, JsonValue } from "./parsers/json";
 import { new_line } from "./parsers/new_line";
+import { StreamParser, parseReadable } from "./stream";
+import { ByteSource, byte, u8, i8, u16le, u16be, u32le, i32be, f32be, f64le, varint, svarint, bytes, lengthPrefixed } from "./binary";
+import { Lexer, TokenSource, Token, token, parseTokens } from "./lexer";
+import { grammarRules } from "./introspect";
+import { ebnf } from "./ebnf";
+import { railroad, railroadDiagram } from "./railroad";
+import { Trace, replay } from "./trace";
+import { parseCst, cstText, cstFind } from "./cst";
+import { parseIncremental, reparse } from "./incremental";
 
 
-export function expectEq<T>(parser: Parser<T>, input: string, expected: T) {
-    const source = new Source(input, 0);
+export function expectEq<T>(parser: Parser<T>, input: string, expected: T, options?: SourceOptions) {
+    const source = new Source(input, 0, options);
     const result = parser.followedBy(eof()).parse(source);
     if (!result.is_ok()) {
-        const [source, reason] = result.unwrap_err();
-        const input = (source as any).input as string;
-        const pos = source.pos;
-
-        const begin = Math.max(0, pos - 10);
-        const end = Math.max(input.length, pos + 10);
-        console.error(`parse error on pos ${source.pos}: ${reason}
-${input.substring(begin, end)}
-${" ".repeat(pos - begin)}^`);
+        console.error(formatError(result.unwrap_err(), source.slice(0)));
         return false;
     }
     try {
         deepEqual(result.unwrap(), expected);
     } catch (e) {
-        console.error(e.toString());
+        console.error(String(e));
+        return false;
+    }
+    return true;
+}
+
+export function expectErr<T>(parser: Parser<T>, input: string, pos: number, message: string) {
+    const source = new Source(input, 0);
+    const result = parser.followedBy(eof()).parse(source);
+    if (result.is_ok()) {
+        console.error(`expected parse error on ${JSON.stringify(input)}, got ${JSON.stringify(result.unwrap())}`);
+        return false;
+    }
+    const error = result.unwrap_err();
+    try {
+        deepEqual([error.pos, error.toString()], [pos, message]);
+    } catch (e) {
+        console.error(String(e));
         return false;
     }
     return true;
@@ -35,7 +61,23 @@ const r = String.raw;
 
 // test string_literal
 expectEq(string_literal(), r`"Hell\"o"`, r`Hell"o`);
-expectEq(string_literal(), r`"Hell\o"`, r`Hello`);
+expectErr(string_literal(), r`"Hell\o"`, 6, `expected escape sequence, got "o"`);
+expectEq(string_literal(), r`"a\n\t\/\u0041\uD83D\uDE00"`, "a\n\t/A\uD83D\uDE00");
+expectEq(string_literal(), r`"\ud83d"`, "\ud83d");
+expectErr(string_literal(), "\"\\u12\"", 5, r`expected hex digit, got "\""`);
+expectErr(string_literal(), "\"a\nb\"", 2, r`expected "\"", got "\n"`);
+expectErr(string_literal(), "\"ab", 3, r`expected "\"", got EOF`);
+expectErr(string_literal(), "'a'", 0, `expected string, got "'"`);
+expectEq(string_literal(char("'")), r`'Hell\'o\n'`, "Hell'on");
+expectEq(string_literal(char("|"), char("!")), "|a!|b|", "a|b");
+expectEq(string_literal({ profile: "js" }), "'\\x41\\u{1F600}\\0\\q\\'\\\n'", "A\u{1F600}\0q'");
+expectEq(string_literal({ profile: "js" }), "`a\nb`", "a\nb");
+expectErr(string_literal({ profile: "js" }), "`a${b}`", 2, "template interpolation is not supported, unexpected \"${\"");
+expectErr(string_literal({ profile: "js" }), "\"\\u{110000}\"", 2, `code point out of range, unexpected "u{110000}"`);
+expectErr(string_literal({ profile: "js" }), r`"\1"`, 2, `expected escape sequence, got "1"`);
+expectErr(string_literal({ profile: "js" }), "\"a\nb\"", 2, r`expected "\"", got "\n"`);
+expectEq(string_literal({ raw: true, quotes: ["'"] }), "'C:\\dir\\'", "C:\\dir\\");
+expectEq(string_literal({ quotes: ["\"", "\"\"\""] }).many(), "\"\"\"a\n\"b\"\t\"\"\"\"\"", ["a\n\"b\"\t", ""]);
 
 expectEq(char("a")
     .then(char("b"))
@@ -141,3 +183,951 @@ expectEq(char("a").sepBy(char(",")).then(char("b")), "a,ab", [["a", "a"], "b"]);
 expectEq(char("a").sepBy(char(",")).then(char("b").skip()), "a,ab", ["a", "a"]);
 expectEq(char("a").skip().sepBy(char(",")), "", undefined);
 expectEq(char("a").skip().sepBy(char(",")).then(char("b")), "b", "b");
+
+// test location
+{
+    const source = new Source("ab\ncd\r\nef\rg", 0);
+    deepEqual(source.location(0), { offset: 0, line: 1, column: 1 });
+    deepEqual(source.location(5), { offset: 5, line: 2, column: 3 });
+    deepEqual(source.location(8), { offset: 8, line: 3, column: 2 });
+    deepEqual(source.location(10), { offset: 10, line: 4, column: 1 });
+}
+
+// test spanned
+expectEq(char("a").skip().then(char("b").spanned()), "ab", {
+    value: "b",
+    span: { start: { offset: 1, line: 1, column: 2 }, end: { offset: 2, line: 1, column: 3 } },
+});
+expectEq(new_line().skip().then(char("a").spanned()), "\r\na", {
+    value: "a",
+    span: { start: { offset: 2, line: 2, column: 1 }, end: { offset: 3, line: 2, column: 2 } },
+});
+
+// test errors
+expectErr(char("a"), "b", 0, `expected "a", got "b"`);
+expectErr(char("a"), "", 0, `expected "a", got EOF`);
+expectErr(char("a").or(char("b")), "c", 0, `expected "a" or "b", got "c"`);
+expectErr(char("a").or(char("b")).or(char("c")), "d", 0, `expected "a", "b" or "c", got "d"`);
+expectErr(char("a").then(char("b")).or(char("c").then(char("d"))), "ax", 1, `expected "b", got "x"`);
+expectErr(seq(char("a"), char("b")), "b", 0, `expected "a", got "b"`);
+expectErr(seq(char("a").skip(), char("b").skip()), "aa", 1, `expected "b", got "a"`);
+expectErr(string("abc"), "abx", 0, `expected "abc", got "abx"`);
+expectErr(oneOf("xyz"), "a", 0, `expected one of "xyz", got "a"`);
+expectErr(char("a"), "ab", 1, `expected EOF, got "b"`);
+expectErr(char("a").not().then(char("b")), "a", 0, `unexpected "a"`);
+expectErr(grammar.digit(), "x", 0, `expected digit, got "x"`);
+expectErr(char("a").then(grammar.digit()).expect("number"), "ax", 1, `expected digit, got "x"`);
+
+// test formatError
+deepEqual(formatError(new ParseError(6, [`"a"`, `"b"`], `"c"`), "first\nxc\nthird"), [
+    `error: expected "a" or "b", got "c"`,
+    ` --> input:2:1`,
+    `  |`,
+    `1 | first`,
+    `2 | xc`,
+    `  | ^`,
+    `3 | third`,
+].join("\n"));
+deepEqual(formatError(new ParseError(9, [`"abc"`], `"abx"`), "1\n2\n3\n\tx abx\n5\n6", { filename: "file.txt", context: 1 }), [
+    `error: expected "abc", got "abx"`,
+    ` --> file.txt:4:4`,
+    `  |`,
+    `3 | 3`,
+    `4 | \tx abx`,
+    `  | \t  ~~~`,
+    `5 | 5`,
+].join("\n"));
+deepEqual(formatError(new ParseError(1, ["EOF"], `"b"`), "ab", { color: true }), [
+    `\u001b[1;31merror\u001b[0m: expected EOF, got "b"`,
+    ` \u001b[34m-->\u001b[0m input:1:2`,
+    `\u001b[34m  |\u001b[0m`,
+    `\u001b[34m1 |\u001b[0m ab`,
+    `\u001b[34m  |\u001b[0m  \u001b[1;31m^\u001b[0m`,
+].join("\n"));
+
+// test committed choice
+expectErr(char("a").then(char("b")).or(char("a").then(char("c"))), "ac", 1, `expected "b", got "c"`);
+expectEq(char("a").then(char("b")).attempt().or(char("a").then(char("c"))), "ac", ["a", "c"]);
+expectEq(char("a").then(char("b")).backtrack().or(char("a").then(char("c"))), "ac", ["a", "c"]);
+expectErr(char("a").then(char("b")).attempt().or(char("x").then(char("y"))), "ac", 1, `expected "b", got "c"`);
+expectErr(char("a").then(char("b")).many(), "aba", 3, `expected "b", got EOF`);
+expectErr(char("a").then(char("b")).optional(), "a", 1, `expected "b", got EOF`);
+expectEq(char("a").then(char("b")).attempt().optional().followedBy(char("a")), "a", undefined);
+expectErr(char("a").then(char("b").cut()).attempt().or(char("a").then(char("c"))), "ac", 1, `expected "b", got "c"`);
+expectErr(char("a").cut().or(char("b")), "b", 0, `expected "a", got "b"`);
+expectEq(char("a").skip().then(char("b").skip()).attempt().or(char("a").skip()), "a", undefined);
+
+// test memo
+{
+    let calls = 0;
+    const counted = char("a").map((a) => (calls += 1, a)).memo();
+    expectEq(counted.then(char("b")).attempt().or(counted.then(char("c"))), "ac", ["a", "c"]);
+    deepEqual(calls, 1);
+    expectErr(counted.then(char("b")).attempt().or(counted.then(char("c"))), "x", 0, `expected "a", got "x"`);
+    expectEq(char("a").skip().memo().then(char("b").skip()).attempt().or(char("a").then(char("c")).skip()), "ac", undefined);
+}
+
+// test lazy
+{
+    interface List extends Array<List> { }
+    const list: Parser<List> = char("[").next(lazy(() => list).sepBy(char(","))).followedBy(char("]"));
+    expectEq(list, "[]", []);
+    expectEq(list, "[[],[[]]]", [[], [[]]]);
+    expectErr(list, "[[],[[]]", 8, `expected "]", got EOF`);
+}
+
+// test left recursion
+{
+    const num = grammar.decimal();
+    const expr: Parser<number> = lazy(() => expr).followedBy(char("-")).then(num).map(([l, r]) => l - r).or(num).memo();
+    expectEq(expr, "7", 7);
+    expectEq(expr, "10-2-3", 5);
+    expectErr(expr, "10-", 2, `expected EOF, got "-"`);
+    const committed: Parser<number> = lazy(() => committed).followedBy(char("-")).then(num.cut()).map(([l, r]) => l - r).or(num).memo();
+    expectEq(committed, "10-2-3", 5);
+    expectErr(committed, "10-2-x", 5, `expected digit, got "x"`);
+
+    // indirect: tree = pair / "a", pair = tree "." "a"
+    const tree: Parser<string> = lazy(() => pair).or(char("a")).memo();
+    const pair = tree.followedBy(char(".")).then(char("a")).map(([l, r]) => `(${l}.${r})`);
+    expectEq(tree, "a.a.a", "((a.a).a)");
+}
+
+// test chainl1, chainr1
+expectEq(grammar.decimal().chainl1(char("-").retn((a: number, b: number) => a - b)), "7-2-1", 4);
+expectEq(grammar.decimal().chainr1(char("^").retn(Math.pow)), "2^3^2", 512);
+expectEq(grammar.decimal().chainl1(char("-").retn((a: number, b: number) => a - b)), "7", 7);
+expectErr(grammar.decimal().chainl1(char("-").retn((a: number, b: number) => a - b)), "7-", 2, `expected digit, got EOF`);
+
+// test expression
+{
+    const num = (value: number) => ({ value });
+    type Expr = { value: number };
+    const unop = (ch: string, f: (x: number) => number) => char(ch).retn((x: Expr) => num(f(x.value)));
+    const binop = (ch: string, f: (x: number, y: number) => number) => char(ch).retn((x: Expr, y: Expr) => num(f(x.value, y.value)));
+    const expr: Parser<Expr> = grammar.expression({
+        atom: grammar.decimal().map(num).or(char("(").next(lazy(() => expr)).followedBy(char(")"))),
+        operators: [
+            [{ prefix: unop("-", (x) => -x) }, { postfix: unop("!", (x) => x * 10) }],
+            [{ infix: binop("^", Math.pow), assoc: "right" }],
+            [{ infix: binop("*", (x, y) => x * y), assoc: "left" }, { infix: binop("/", (x, y) => x / y), assoc: "left" }],
+            [{ infix: binop("+", (x, y) => x + y), assoc: "left" }, { infix: binop("-", (x, y) => x - y), assoc: "left" }],
+            [{ infix: binop("=", (x, y) => Number(x === y)), assoc: "none" }],
+        ],
+    });
+    expectEq(expr, "1+2*3", num(7));
+    expectEq(expr, "(1+2)*3", num(9));
+    expectEq(expr, "8-4-2", num(2));
+    expectEq(expr, "16/4/2", num(2));
+    expectEq(expr, "2^3^2", num(512));
+    expectEq(expr, "--2", num(2));
+    expectEq(expr, "-2!", num(-20));
+    expectEq(expr, "1+1=2", num(1));
+    expectErr(expr, "1=1=1", 3, `expected end of non-associative expression, got "="`);
+    const mixed: Parser<Expr> = grammar.expression({
+        atom: grammar.decimal().map(num),
+        operators: [
+            [
+                { infix: binop("-", (x, y) => x - y), assoc: "left" },
+                { infix: binop("^", Math.pow), assoc: "right" },
+                { infix: binop("=", (x, y) => Number(x === y)), assoc: "none" },
+            ],
+        ],
+    });
+    expectEq(mixed, "8-4-2", num(2));
+    expectEq(mixed, "2^3^2", num(512));
+    expectEq(mixed, "1=1", num(1));
+    expectEq(mixed, "7", num(7));
+    expectErr(mixed, "8-4^2", 3, `expected end of left associative expression, got "^"`);
+    expectErr(mixed, "2^3-1", 3, `expected end of right associative expression, got "-"`);
+    expectErr(mixed, "1=1-1", 3, `expected end of non-associative expression, got "-"`);
+}
+
+// test recover
+{
+    const item = recover(grammar.decimal(), char(";"), -1).followedBy(char(";"));
+    deepEqual(run(item.many().followedBy(eof()), "1;x;23;y4;5;"), {
+        value: [1, -1, 23, -1, 5],
+        errors: [new ParseError(2, ["digit"], `"x"`), new ParseError(7, ["digit"], `"y"`)],
+    });
+    deepEqual(run(item.many().followedBy(eof()), "1;x"), {
+        errors: [new ParseError(2, ["digit"], `"x"`), new ParseError(3, [`";"`], "EOF")],
+    });
+    // errors recovered in abandoned alternatives are forgotten
+    deepEqual(run(item.then(char("!")).attempt().or(always<[number, string]>([0, "?"])), "x;"), { value: [0, "?"], errors: [] });
+
+    const list = char("[").next(grammar.decimal().sepByRecover(char(","), char("]"), 0)).followedBy(char("]"));
+    deepEqual(run(list, "[1,x,3,]"), {
+        value: [1, 0, 3, 0],
+        errors: [new ParseError(3, ["digit"], `"x"`), new ParseError(7, ["digit"], `"]"`)],
+    });
+    deepEqual(run(list, "[]"), { value: [], errors: [] });
+    deepEqual(run(list, "[1,2"), { errors: [new ParseError(4, [`"]"`], "EOF")] });
+}
+
+// test streaming
+{
+    const record = grammar.decimal().spanned().followedBy(new_line());
+    const values: [number, number, number][] = [];
+    const stream = new StreamParser(record, ({ value, span }) => values.push([value, span.start.line, span.start.column]));
+    deepEqual(stream.feed("1\n2").is_ok(), true);
+    deepEqual(values, [[1, 1, 1]]);
+    deepEqual(stream.feed("3\r").is_ok(), true);
+    deepEqual(values, [[1, 1, 1]]);
+    deepEqual(stream.feed("\n45").is_ok(), true);
+    deepEqual(values, [[1, 1, 1], [23, 2, 1]]);
+    deepEqual(stream.feed(Buffer.from("6\n")).is_ok(), true);
+    deepEqual(stream.close().is_ok(), true);
+    deepEqual(values, [[1, 1, 1], [23, 2, 1], [456, 3, 1]]);
+
+    const broken = new StreamParser(record, () => undefined);
+    deepEqual(broken.feed("1\n2x").unwrap_err(), new ParseError(3, [`"\\r\\n"`, `"\\r"`, `"\\n"`], `"x"`));
+
+    const unterminated = new StreamParser(record, () => undefined);
+    deepEqual(unterminated.feed("12").is_ok(), true);
+    deepEqual(unterminated.close().unwrap_err(), new ParseError(2, [`"\\r\\n"`, `"\\r"`, `"\\n"`], "EOF"));
+
+    // a regular expression waits for more input while the buffered input could begin a match
+    const decimals: string[] = [];
+    const decimal = new StreamParser(regex(/\d+\.\d+\n/), (value) => decimals.push(value));
+    deepEqual(decimal.feed("12.").is_ok(), true);
+    deepEqual(decimal.feed("5\n3").is_ok(), true);
+    deepEqual(decimal.feed(".25").is_ok(), true);
+    deepEqual(decimal.feed("\n").is_ok(), true);
+    // a match reaching the end of the buffered input could go on
+    deepEqual(decimals, ["12.5\n"]);
+    deepEqual(decimal.close().is_ok(), true);
+    deepEqual(decimals, ["12.5\n", "3.25\n"]);
+    const broken_decimal = new StreamParser(regex(/\d+\.\d+\n/), () => undefined);
+    deepEqual(broken_decimal.feed("1x").unwrap_err().toString(), `expected /\\d+\\.\\d+\\n/, got "1"`);
+    const keywords: string[] = [];
+    const keyword = new StreamParser(regex(/(?:let|const)(?!\w) |(?<word>[a-z]{3})\k<word>;/i), (value) => keywords.push(value));
+    for (const chunk of ["co", "NS", "t", " l", "e", "t ab", "cab", "c;"]) {
+        deepEqual(keyword.feed(chunk).is_ok(), true);
+    }
+    deepEqual(keyword.close().is_ok(), true);
+    deepEqual(keywords, ["coNSt ", "let ", "abcabc;"]);
+    deepEqual(new StreamParser(regex(/(?:let|const) /), () => undefined).feed("lex").is_ok(), false);
+    // a match is only taken once the input after it can't extend it
+    const numbers: number[] = [];
+    const number = new StreamParser(grammar.number().followedBy(char("\n")), (value) => numbers.push(value));
+    for (const chunk of ["1", "2.", "5e", "3\n", "7", "\n"]) {
+        deepEqual(number.feed(chunk).is_ok(), true);
+    }
+    deepEqual(numbers, [12.5e3, 7]);
+
+    // a record spanning many chunks resumes where it stopped, every item is parsed once
+    const documents: number[][] = [];
+    let parsed = 0;
+    const item = grammar.decimal().map((value) => {
+        parsed += 1;
+        return value;
+    });
+    const document = new StreamParser(char("[").next(item.sepBy(char(","))).followedBy(char("]")), (value) => documents.push(value));
+    const items = Array.from({ length: 200 }, (_, i) => i);
+    for (const chunk of `[${items.join(",")}]`.match(/[^]{1,7}/g) || []) {
+        deepEqual(document.feed(chunk).is_ok(), true);
+    }
+    deepEqual(document.close().is_ok(), true);
+    deepEqual([documents, parsed], [[items], items.length]);
+    // a combinator reading the input by itself parses the record again
+    const recovered: number[] = [];
+    const recovering = new StreamParser(recover(grammar.decimal(), char(";"), -1).followedBy(char(";")), (value) => recovered.push(value));
+    for (const chunk of ["1;x", "y", "z;2", ";"]) {
+        deepEqual(recovering.feed(chunk).is_ok(), true);
+    }
+    deepEqual(recovered, [1, -1, 2]);
+
+    const code_points: string[] = [];
+    const unicode = new StreamParser(any(), (value) => code_points.push(value), { unicode: true });
+    deepEqual(unicode.feed("a\ud83d").is_ok(), true);
+    deepEqual(unicode.feed("\ude00").is_ok(), true);
+    deepEqual(unicode.close().is_ok(), true);
+    deepEqual(code_points, ["a", "\u{1F600}"]);
+    const nested: Parser<number> = char("[").next(lazy(() => nested)).followedBy(char("]")).or(grammar.decimal());
+    const shallow = new StreamParser(nested, () => undefined, { maxDepth: 3 });
+    deepEqual(shallow.feed("[[[").is_ok(), true);
+    deepEqual(shallow.feed("[1]]]]").unwrap_err().toString(), "nesting deeper than 3");
+
+    const readable = new PassThrough();
+    const lines: number[] = [];
+    let own_end = false;
+    readable.on("end", () => own_end = true);
+    parseReadable(grammar.decimal().followedBy(new_line()), readable, (value) => lines.push(value)).then((result) => {
+        deepEqual(result.is_ok(), true);
+        deepEqual(lines, [10, 20, 30]);
+        deepEqual(own_end, true);
+        deepEqual([readable.listenerCount("data"), readable.listenerCount("end"), readable.listenerCount("error")], [0, 1, 0]);
+    }).catch((e) => console.error(e.toString()));
+    readable.write("10\n2");
+    readable.write("0\n30\n");
+    readable.end();
+
+    const throwing = new PassThrough();
+    parseReadable(grammar.decimal().followedBy(new_line()), throwing, () => {
+        throw new Error("rejected");
+    }).then(() => console.error("parseReadable should reject when on_value throws")).catch((e) => {
+        deepEqual(e.message, "rejected");
+        deepEqual([throwing.listenerCount("data"), throwing.listenerCount("end"), throwing.listenerCount("error")], [0, 0, 0]);
+    });
+    throwing.write("1\n");
+}
+
+// test binary
+{
+    const parse = <T>(parser: Parser<T>, data: number[]) => parser.followedBy(eof()).parse(new ByteSource(new Uint8Array(data)));
+    deepEqual(parse(u8().then(i8()), [0xff, 0xff]).unwrap(), [255, -1]);
+    deepEqual(parse(u16le().then(u16be()), [0x01, 0x02, 0x01, 0x02]).unwrap(), [0x0201, 0x0102]);
+    deepEqual(parse(u32le().then(i32be()), [1, 0, 0, 0, 0xff, 0xff, 0xff, 0xfe]).unwrap(), [1, -2]);
+    deepEqual(parse(f32be().then(f64le()), [0x3f, 0xc0, 0, 0, 0, 0, 0, 0, 0, 0, 0x04, 0x40]).unwrap(), [1.5, 2.5]);
+    deepEqual(parse(varint().times(3), [0x01, 0xac, 0x02, 0xff, 0xff, 0x03]).unwrap(), [1, 300, 65535]);
+    deepEqual(parse(svarint().times(3), [0x00, 0x01, 0x04]).unwrap(), [0, -1, 2]);
+    deepEqual(parse(varint(), new Array(8).fill(0xff).concat([0x7f])).unwrap_err().toString(), "varint overflow");
+    // the bytes of an overflowing varint are consumed, there is no other way to read them
+    deepEqual(parse(varint().or(u8().many().retn(0)), new Array(8).fill(0xff).concat([0x7f])).unwrap_err().toString(), "varint overflow");
+    deepEqual(parse(varint(), new Array(9).fill(0x80).concat([0x00])).unwrap(), 0);
+    deepEqual(parse(varint(), new Array(200).fill(0x80).concat([0x00])).unwrap_err().toString(), "varint longer than 10 bytes");
+    // the bytes are not copied, the parsers read them in place
+    const data = new Uint8Array([0x61, 0x62, 0x0a, 0x63]);
+    deepEqual(parse(byte(0x61).then(any().many()), Array.from(data)).unwrap(), [0x61, ["b", "\n", "c"]]);
+    deepEqual(parse(byte(0x61).then(byte(0x63)), Array.from(data)).unwrap_err(), new ParseError(1, ["byte 99"], "byte 98"));
+    for (const parser of [string("ab"), regex(/a/)]) {
+        try {
+            parse(parser, Array.from(data));
+            console.error("character parsers should throw on a ByteSource");
+        } catch (e) {
+            deepEqual(e instanceof TypeError, true);
+        }
+    }
+    const source = new ByteSource(data, 3);
+    deepEqual([source.slice(0, 2), source.length, source.location()], ["ab", 4, { offset: 3, line: 1, column: 4 }]);
+    data[3] = 0x64;
+    deepEqual(source.next(), "d");
+    deepEqual(parse(u8().then(u32le()), [1, 2, 3]).unwrap_err(), new ParseError(1, ["u32le"], "EOF"));
+    deepEqual(parse(bytes(2).then(byte(0x7f)), [1, 2, 0x7f]).unwrap(), [new Uint8Array([1, 2]), 0x7f]);
+    deepEqual(parse(bytes(-1), [1]).unwrap_err(), new ParseError(0, [], undefined, "negative length -1"));
+    deepEqual(parse(lengthPrefixed(i8()), [0xff, 1]).unwrap_err(), new ParseError(0, [], undefined, "negative length -1", 1));
+    deepEqual(parse(lengthPrefixed(u8()).many(), [2, 9, 9, 0, 1, 7]).unwrap(), [new Uint8Array([9, 9]), new Uint8Array([]), new Uint8Array([7])]);
+    deepEqual(parse(lengthPrefixed(u8(), u8().many1()), [2, 5, 6]).unwrap(), [5, 6]);
+    deepEqual(parse(lengthPrefixed(u8(), u8()), [2, 5, 6]).unwrap_err(), new ParseError(2, ["end of block"], "1 more bytes"));
+    deepEqual(parse(lengthPrefixed(u8(), u16le()), [1, 5]).unwrap_err(), new ParseError(1, ["u16le"], "EOF"));
+    deepEqual(parse(u8().sepBy(byte(0)), [1, 0, 2]).unwrap(), [1, 2]);
+}
+
+// test unicode
+expectEq(any().many(), "a\u{1F600}b", ["a", "\ud83d", "\ude00", "b"]);
+expectEq(any().many(), "a\u{1F600}b", ["a", "\u{1F600}", "b"], { unicode: true });
+expectEq(char("\u{1F600}").then(char("b")), "\u{1F600}b", ["\u{1F600}", "b"]);
+expectEq(char("\u{1F600}").then(char("b")), "\u{1F600}b", ["\u{1F600}", "b"], { unicode: true });
+expectEq(string("\u{20000}x"), "\u{20000}x", "\u{20000}x");
+expectEq(oneOf("a\u{1F600}").many(), "\u{1F600}a", ["\u{1F600}", "a"]);
+expectErr(char("a"), "\u{1F600}", 0, `expected "a", got "\u{1F600}"`);
+expectEq(letter().many(), "a\u00e9\u0416\u4e2d", ["a", "\u00e9", "\u0416", "\u4e2d"]);
+expectErr(letter(), "1", 0, `expected letter, got "1"`);
+expectEq(unicodeClass("Lu").then(unicodeClass("Ll")), "\u00c4\u00e4", ["\u00c4", "\u00e4"]);
+expectErr(unicodeClass("Lu"), "a", 0, `expected \\p{Lu}, got "a"`);
+expectEq(unicodeClass("Script=Greek").many1().join(), "\u03bb\u03bc", "\u03bb\u03bc");
+expectEq(charClass("[\\p{Nd}_]").many1().join(), "1_\u0663", "1_\u0663");
+// the anchors apply to the whole class, not to its first and last alternative
+expectEq(charClass("x*|a"), "a", "a");
+expectErr(charClass("x*|a"), "z", 0, `expected x*|a, got "z"`);
+expectEq(xidStart().then(xidContinue().many().join()), "\u03bb1_", ["\u03bb", "1_"]);
+expectErr(xidStart(), "1", 0, `expected identifier start, got "1"`);
+expectEq(char("\u00e9"), "e\u0301", "\u00e9", { normalize: "NFC" });
+expectEq(string("e\u0301"), "\u00e9", "e\u0301", { normalize: "NFD" });
+expectEq(string("select", { caseInsensitive: true }), "SeLeCt", "SeLeCt");
+expectErr(string("select"), "SeLeCt", 0, `expected "select", got "SeLeCt"`);
+expectEq(oneOf("abc", { caseInsensitive: true }).many(), "aBC", ["a", "B", "C"]);
+
+// test regex
+expectEq(regex(/[a-z]+/).then(regex(/\d+/)), "abc123", ["abc", "123"]);
+expectEq(regex(/[a-z]+/g).sepBy(char(",")), "a,bc,d", ["a", "bc", "d"]);
+expectEq(regex(/(\w+)=(\w+)/, 2), "key=value", "value");
+expectEq(regex(/(a)|(b)/, 2), "a", "");
+expectEq(regexMatch(/(?<key>\w+)=(?<value>\w+)/).map((m) => [m[1], m[2]]), "x=1", ["x", "1"]);
+expectEq(regex(/\s*/).then(char("a")), "a", ["", "a"]);
+expectEq(regex(/./u), "\u{1F600}", "\u{1F600}");
+expectEq(regex(/select/i), "SELECT", "SELECT");
+expectErr(regex(/\d+/), "x", 0, `expected /\\d+/, got "x"`);
+expectErr(char("a").then(regex(/\d+/)).or(char("b").then(regex(/\d+/))), "c", 0, `expected "a" or "b", got "c"`);
+{
+    const words: string[] = [];
+    const stream = new StreamParser(regex(/[a-z]+/).followedBy(char(" ")), (word) => words.push(word));
+    stream.feed("ab");
+    stream.feed("c de");
+    deepEqual(words, ["abc"]);
+    stream.feed("f ");
+    deepEqual(words, ["abc", "def"]);
+}
+
+// test seq, alt
+{
+    const typed: Parser<[string, number, string[]]> = seq(char("a"), char("-").skip(), grammar.decimal(), char("b").many());
+    expectEq(typed, "a-12bb", ["a", 12, ["b", "b"]]);
+    expectEq(seq(char("a").skip(), char("b")), "ab", ["b"]);
+    expectEq(seq(char("a").skip(), char("b").skip()), "ab", undefined);
+    const parsers = [char("a"), char("b")];
+    const same: Parser<string[]> = seq(...parsers);
+    expectEq(same, "ab", ["a", "b"]);
+    expectErr(seq(char("a"), grammar.decimal()), "ax", 1, `expected digit, got "x"`);
+
+    const either: Parser<string | number> = alt(char("a"), grammar.decimal());
+    expectEq(either.many(), "a1a", ["a", 1, "a"]);
+    expectEq(alt(char("a").skip(), char("b").skip()).then(char("c")), "bc", "c");
+    expectErr(alt(char("a"), grammar.decimal(), string("xy")), "xz", 0, `expected "a", digit or "xy", got "x"`);
+    const keywords: string[] = [];
+    const none = alt(...keywords.map((keyword) => string(keyword)));
+    expectErr(none, "x", 0, `unexpected "x"`);
+    expectEq(none.or(char("x")), "x", "x");
+    const empty = seq(...keywords.map((keyword) => string(keyword)));
+    expectEq(empty, "", []);
+    expectEq(seq(empty, char("x")), "x", [[], "x"]);
+}
+
+// test struct
+{
+    const identifier = regex(/[a-z]+/);
+    const pair: Parser<{ key: string, value: number }> = struct({ key: identifier, _: char("=").skip(), value: grammar.decimal() });
+    expectEq(pair, "x=1", { key: "x", value: 1 });
+    expectEq(pair.sepBy(char(",")), "x=1,yy=22", [{ key: "x", value: 1 }, { key: "yy", value: 22 }]);
+    expectErr(pair, "x:1", 1, `expected "=", got ":"`);
+}
+
+// test gen
+{
+    const counted = gen(function* () {
+        const length = yield* grammar.decimal();
+        yield* char(":").skip();
+        return yield* any().times(length).join();
+    });
+    expectEq(counted.many(), "3:abc1:x0:", ["abc", "x", ""]);
+    expectErr(counted, "3:ab", 4, `expected any character, got EOF`);
+
+    let finished = false;
+    const cleanup = gen(function* () {
+        try {
+            return yield* char("a");
+        } finally {
+            finished = true;
+        }
+    });
+    expectErr(cleanup, "b", 0, `expected "a", got "b"`);
+    deepEqual(finished, true);
+}
+
+// test custom
+{
+    const upper = custom<string>((source) => {
+        const pos = source.pos;
+        const ch = source.next();
+        return ch !== "" && ch === ch.toUpperCase() ? success(ch) : fail(source, pos, "upper case letter");
+    });
+    expectEq(upper.many1().join(), "AB", "AB");
+    expectErr(upper, "a", 0, `expected upper case letter, got "a"`);
+    expectErr(upper, "", 0, `expected upper case letter, got EOF`);
+    expectEq(seq(upper.skip(), char("b")), "Ab", ["b"]);
+    expectEq(fromFunction(() => success(1)), "", 1);
+}
+
+// test chain
+{
+    const counted = grammar.digit().map(Number).chain((n) => any().times(n).join());
+    expectEq(counted.many(), "2ab0", ["ab", ""]);
+    expectErr(counted, "3ab", 3, `expected any character, got EOF`);
+    expectEq(char("#").skip().flatMap(() => grammar.decimal()), "#12", 12);
+    expectErr(char("#").chain(() => grammar.decimal()), "12", 0, `expected "#", got "1"`);
+}
+
+// test lexer
+{
+    const lexer = new Lexer([
+        { kind: "whitespace", pattern: /\s+/, channel: "trivia" },
+        { kind: "comment", pattern: /\/\/[^\n]*/, channel: "trivia" },
+        { kind: "identifier", pattern: /[a-z_]\w*/ },
+        { kind: "number", pattern: grammar.decimal() },
+        { kind: "operator", pattern: "=" },
+        { kind: "operator", pattern: "==" },
+        { kind: "operator", pattern: "/" },
+        { kind: "punctuation", pattern: ";" },
+        { kind: "boolean", pattern: "true", priority: 1 },
+    ], { keywords: ["let"] });
+
+    const tokens = lexer.tokenize("let x = 1; // one\nx == true").unwrap();
+    deepEqual(tokens.filter((t) => t.channel === "default").map((t) => `${t.kind}:${t.text}`), [
+        "keyword:let", "identifier:x", "operator:=", "number:1", "punctuation:;", "identifier:x", "operator:==", "boolean:true",
+    ]);
+    deepEqual(tokens.map((t) => t.text).join(""), "let x = 1; // one\nx == true");
+    deepEqual(tokens[tokens.length - 1].span, { start: { offset: 23, line: 2, column: 6 }, end: { offset: 27, line: 2, column: 10 } });
+    deepEqual(lexer.tokenize("trueish").unwrap().map((t) => t.kind), ["identifier"]);
+    deepEqual(lexer.tokenize("x # y").unwrap_err(), new ParseError(2, [], `"#"`, "invalid token"));
+
+    const text = (t: Token) => t.text;
+    const value = token("number").map((t): number | string => Number(t.text)).or(token("identifier").map(text));
+    const statement = seq(token("keyword", "let").skip(), token("identifier").map(text), token("operator", "=").skip(), value, token("punctuation", ";").skip());
+    const program = statement.many().followedBy(eof());
+    deepEqual(parseTokens(program, lexer, "let a = 1;\nlet b = a; // done").unwrap(), [["a", 1], ["b", "a"]]);
+    deepEqual(parseTokens(program, lexer, "let a = 1;\nlet b a;").unwrap_err(), new ParseError(17, [`"="`], `"a"`));
+    deepEqual(parseTokens(program, lexer, "let a = 1").unwrap_err(), new ParseError(9, [`";"`], "EOF"));
+
+    const source = lexer.source("let a = 1; x").unwrap() as TokenSource;
+    deepEqual(statement.parse(source).unwrap(), ["a", 1]);
+    deepEqual(source.slice(0, source.pos), "let a = 1;");
+    deepEqual(any().parse(source).unwrap(), "x");
+    deepEqual(source.span(0, 5), { start: { offset: 0, line: 1, column: 1 }, end: { offset: 10, line: 1, column: 11 } });
+    // ends past the last token are clamped
+    deepEqual(source.slice(5), "x");
+    deepEqual(source.slice(0, source.length + 1), "let a = 1; x");
+    deepEqual(source.span(5, source.length + 1), { start: { offset: 11, line: 1, column: 12 }, end: { offset: 12, line: 1, column: 13 } });
+    try {
+        char("x").parse(new TokenSource("", []));
+        console.error("char() should throw on a TokenSource");
+    } catch (e) {
+        deepEqual(e instanceof TypeError, true);
+    }
+}
+
+// test language
+{
+    const lang = grammar.language({ commentLine: "//", commentStart: "/*", commentEnd: "*/", reservedNames: ["let", "in"] });
+    const binding = struct({
+        _let: lang.reserved("let").skip(),
+        name: lang.identifier,
+        _eq: lang.symbol("=").skip(),
+        values: lang.brackets(lang.commaSep(lang.natural)),
+        _semi: lang.symbol(";").skip(),
+    });
+    const program = lang.whitespace.next(binding.many()).followedBy(eof());
+    expectEq(program, " let x = [1, 2 /* two */ , 3];\n// done\nlet letter=[];", [{ name: "x", values: [1, 2, 3] }, { name: "letter", values: [] }]);
+    expectErr(program, "let in = [];", 4, `expected identifier, got reserved word "in"`);
+    expectErr(program, "letx = [];", 0, `expected EOF, got "l"`);
+    expectErr(lang.reserved("let"), "letx", 0, `expected "let", got "letx"`);
+    expectErr(lang.identifier, "1x", 0, `expected identifier, got "1"`);
+    expectErr(program, "let x = [1 /* open", 18, `expected end of comment "*/", got EOF`);
+    expectEq(lang.lexeme(lang.symbol("+").skip()).next(lang.natural), "+ /**/ 1", 1);
+    expectEq(lang.parens(lang.semiSep1(lang.identifier)), "(a; b)", ["a", "b"]);
+    expectEq(lang.braces(lang.angles(lang.identifier)), "{ <a> }", "a");
+
+    const nested = grammar.language({ commentStart: "(*", commentEnd: "*)", nestedComments: true });
+    expectEq(nested.whitespace.next(nested.identifier), "(* a (* b *) c *) x", "x");
+    expectErr(nested.whitespace.next(nested.identifier), "(* a (* b *) x", 14, `expected end of comment "*)", got EOF`);
+    expectErr(lang.whitespace.next(lang.identifier), "/* a /* b */ x */", 15, `expected EOF, got "*"`);
+}
+
+// test numbers
+{
+    const { integer, hex, octal, binary, float, number, bigint } = grammar;
+    expectEq(integer(), "-1_000", -1000);
+    expectEq(integer(), "+42", 42);
+    expectEq(integer({ profile: "json" }), "-0", -0);
+    expectErr(integer({ profile: "json" }), "+1", 0, `expected integer, got "+"`);
+    expectErr(integer({ profile: "json" }), "1_0", 1, `expected EOF, got "_"`);
+    expectErr(integer({ sign: false }), "-1", 0, `expected integer, got "-"`);
+    expectErr(integer(), "01", 1, `expected EOF, got "1"`);
+    expectErr(integer(), "1__0", 1, `expected EOF, got "_"`);
+    expectErr(integer(), "9007199254740993", 0, `integer overflow, unexpected "9007199254740993"`);
+    expectEq(integer(), "9007199254740991", 9007199254740991);
+    expectEq(integer({ separators: false }).then(regex(/_\d/)), "1_0", [1, "_0"]);
+
+    expectEq(hex(), "0xff_FF", 0xffff);
+    expectEq(hex(), "-0XA", -10);
+    expectEq(octal(), "0o17", 15);
+    expectEq(binary(), "0b1010", 10);
+    expectEq(hex({ profile: "toml" }), "0xDEAD_beef", 0xdeadbeef);
+    expectErr(hex({ profile: "toml" }), "0XFF", 0, `expected hexadecimal integer, got "0"`);
+    expectErr(hex({ profile: "toml" }), "-0xFF", 0, `expected hexadecimal integer, got "-"`);
+    expectErr(hex(), "0x20000000000000", 0, `hexadecimal integer overflow, unexpected "0x20000000000000"`);
+    try {
+        hex({ profile: "json" });
+        console.error("hex() should throw for json");
+    } catch (e) {
+        deepEqual(e instanceof TypeError, true);
+    }
+
+    expectEq(float(), "1.5e3", 1500);
+    expectEq(float(), "-.5", -0.5);
+    expectEq(float(), "5.", 5);
+    expectEq(float(), "1_0.2_5", 10.25);
+    expectEq(float(), "-Infinity", -Infinity);
+    expectEq(float(), "NaN", NaN);
+    expectErr(float(), "1", 0, `expected float, got "1"`);
+    expectErr(float(), "1e400", 0, `float overflow, unexpected "1e400"`);
+    expectEq(float({ profile: "toml" }), "+inf", Infinity);
+    expectEq(float({ profile: "toml" }), "6.626e-34", 6.626e-34);
+    expectErr(float({ profile: "toml" }), ".5", 0, `expected float, got "."`);
+    expectErr(float({ profile: "toml" }), "5.", 0, `expected float, got "5"`);
+    expectErr(float({ profile: "json" }), "Infinity", 0, `expected float, got "I"`);
+    expectErr(float({ special: false }), "NaN", 0, `expected float, got "N"`);
+    expectEq(float({ profile: "json", special: true }).sepBy(char(",")), "-Infinity,NaN,1.5", [-Infinity, NaN, 1.5]);
+    expectEq(float({ profile: "toml", special: true }), "-inf", -Infinity);
+    expectErr(float({ profile: "json" }), "NaN", 0, `expected float, got "N"`);
+
+    expectEq(number({ profile: "json" }).sepBy(char(",")), "1,-2.5,3e2,0", [1, -2.5, 300, 0]);
+    expectEq(number().sepBy(char(",")), "0x10,0o10,0b10,10,1.,Infinity", [16, 8, 2, 10, 1, Infinity]);
+    expectErr(number(), "x", 0, `expected number, got "x"`);
+
+    expectEq(bigint(), "-123456789012345678901234567890n", BigInt("-123456789012345678901234567890"));
+    expectErr(bigint(), "1", 0, `expected bigint, got "1"`);
+    expectEq(bigint({ profile: "toml" }), "9_223_372_036_854_775_807", BigInt("9223372036854775807"));
+}
+
+// test json
+{
+    // "y_" cases have to parse, "n_" cases have to fail and "i_" cases may do either
+    const suite = path.join(__dirname, "..", "test", "fixtures", "JSONTestSuite", "test_parsing");
+    const document = json();
+    const cases = fs.readdirSync(suite);
+    deepEqual(cases.length, 318);
+    for (const name of cases) {
+        const input = fs.readFileSync(path.join(suite, name), "utf8");
+        if (name.startsWith("y_")) {
+            if (!expectEq(document, input, JSON.parse(input))) {
+                console.error(`json: ${name} should be accepted`);
+            }
+        } else if (name.startsWith("n_")) {
+            if (document.parse(new Source(input, 0)).is_ok()) {
+                console.error(`json: ${name} should be rejected`);
+            }
+        } else {
+            document.parse(new Source(input, 0));
+        }
+    }
+
+    // tslint:disable-next-line:no-null-keyword
+    const value: JsonValue = { a: [1, "b", true, false, null] };
+    expectEq(json(), `{ "a": [1, "b", true, false, null] }`, value);
+    deepEqual(Object.getPrototypeOf(json().parse(new Source(`{"__proto__": []}`, 0)).unwrap()), Object.prototype);
+    expectErr(json(), "[1,]", 3, `expected value, got "]"`);
+    expectErr(json(), "[1 2]", 3, `expected "]", got "2"`);
+    expectErr(json(), `{"a" 1}`, 5, `expected ":", got "1"`);
+    expectErr(json(), "// c\n1", 0, `expected value, got "/"`);
+
+    const config = "{\n  // comment\n  \"a\": [1, 2, /* two */],\n}\n";
+    expectEq(json({ profile: "jsonc" }), config, { a: [1, 2] });
+    expectErr(json({ profile: "jsonc" }), "[,]", 1, `expected "]", got ","`);
+    expectErr(json({ profile: "jsonc" }), "[1,,]", 3, `expected value, got ","`);
+    expectErr(json({ profile: "jsonc" }), "{a: 1}", 1, `expected "}", got "a"`);
+    expectErr(json({ profile: "jsonc", trailingCommas: false }), "[1,]", 3, `expected value, got "]"`);
+    expectErr(json({ profile: "jsonc" }), "1 /* c", 6, `expected end of comment "*/", got EOF`);
+
+    expectEq(json({ profile: "json5" }), "{unquoted: 'single', $key_1: +0x1F, 'a\\'b': [.5, 5., -Infinity,],}", { "unquoted": "single", "$key_1": 31, "a'b": [0.5, 5, -Infinity] });
+    expectErr(json({ profile: "json5" }), "0o7", 0, `expected value, got "0"`);
+    expectEq(json({ unquotedKeys: true }), `{a:1}`, { a: 1 });
+}
+
+// test describe, ebnf, railroad
+{
+    const ab = char("a").or(string("b")).named("ab");
+    deepEqual(ab.describe().kind, "rule");
+    deepEqual(ab.describe().label, "ab");
+    const choice = ab.describe().children[0].describe();
+    deepEqual(choice.kind, "choice");
+    deepEqual(choice.children.map((child) => child.describe()), [
+        { kind: "literal", label: "a", children: [] },
+        { kind: "literal", label: "b", children: [] },
+    ]);
+    deepEqual(oneOf("xy").expect("x or y").describe().kind, "label");
+    deepEqual(custom(() => success(1)).describe(), { kind: "custom", children: [] });
+    expectEq(ab, "b", "b");
+
+    const number = grammar.decimal().named("number");
+    const list: Parser<any> = char("[").next(lazy(() => number.or(list)).sepBy(char(","))).followedBy(char("]"));
+    deepEqual(ebnf(list), [
+        `start  ::= "[" ((number | start) ("," (number | start))*)? "]"\n`,
+        `number ::= [0123456789]+\n`,
+    ].join(""));
+    deepEqual(grammarRules(list, "list").map((rule) => rule.name), ["list", "number"]);
+
+    const cycle: Parser<any> = lazy(() => char("(").next(cycle.optional()).followedBy(char(")")));
+    deepEqual(ebnf(seq(cycle, eof())), `start ::= rule1 <EOF>\nrule1 ::= "(" rule1? ")"\n`);
+
+    const quoted = char("'").next(char("'").not().next(any()).many()).followedBy(char("'"));
+    deepEqual(ebnf(quoted.named("quoted")), `quoted ::= "'" (<any character> - "'")* "'"\n`);
+    deepEqual(ebnf(string("a\"'b\n").then(oneOf("]-x").times(2))), `start ::= 'a"' "'b" #xA [#x5D#x2Dx] [#x5D#x2Dx]\n`);
+    deepEqual(ebnf(regex(/\d+/).expect("digits").then(letter()).chainl1(char("+").retn((a) => a))), "start ::= <digits> <letter> (\"+\" <digits> <letter>)*\n");
+
+    const html = railroad(list, { title: "Lists & more" });
+    deepEqual(html.includes("<title>Lists &amp; more</title>"), true);
+    deepEqual((html.match(/<svg /g) || []).length, 2);
+    deepEqual(html.includes(`<a href="#number">`), true);
+    deepEqual(railroadDiagram({ type: "literal", text: "<" }).includes("&quot;&lt;&quot;"), true);
+}
+
+// test trace
+{
+    const ab = seq(char("a"), char("b")).named("ab");
+    const ac = seq(char("a"), char("c")).named("ac");
+    const trace = new Trace();
+    const source = new Source("ac", 0, { tracer: trace });
+    deepEqual(ab.attempt().or(ac).named("word").parse(source).unwrap(), ["a", "c"]);
+    deepEqual(trace.toString(), [
+        "> word 1:1\n",
+        "  > ab 1:1\n",
+        `  - ab 1:2: expected "b", got "c"\n`,
+        "  > ac 1:1\n",
+        "  + ac 1:1-1:3\n",
+        "+ word 1:1-1:3\n",
+    ].join(""));
+
+    const log = JSON.parse(JSON.stringify(trace.export()));
+    deepEqual(log.input, "ac");
+    const steps = Array.from(replay(log));
+    deepEqual(steps.map((step) => step.stack), [[], ["word"], ["word", "ab"], ["word"], ["word", "ac"], ["word"]]);
+    deepEqual(steps.map((step) => step.backtracked), [undefined, undefined, undefined, { from: 1, to: 0 }, undefined, undefined]);
+
+    // a rule interrupted by an exception fails as well, the next parse starts at depth 0 again
+    const interrupted = new Trace();
+    const thrower = custom<string>(() => {
+        throw new Error("interrupted");
+    }).named("inner");
+    let thrown = false;
+    try {
+        seq(char("a"), thrower).named("outer").parse(new Source("ab", 0, { tracer: interrupted }));
+    } catch (e) {
+        thrown = true;
+    }
+    deepEqual(thrown, true);
+    char("a").named("a").parse(new Source("a", 0, { tracer: interrupted }));
+    deepEqual(interrupted.toString(), [
+        "> outer 1:1\n",
+        "  > inner 1:2\n",
+        "  - inner 1:2: parse interrupted\n",
+        "- outer 1:2: parse interrupted\n",
+        "> a 1:1\n",
+        "+ a 1:1-1:2\n",
+    ].join(""));
+
+    // until() looks for its end before every item and matches the end once more after them
+    const digit = oneOf("0123456789").expect("digit");
+    const digits = new Trace();
+    digit.until(char(";").expect("end")).parse(new Source("1;", 0, { tracer: digits }));
+    deepEqual(digits.events.map((event) => `${event.type} ${event.rule} ${event.start.offset}`), [
+        "enter end 0", "fail end 0", "enter digit 0", "success digit 0", "enter end 1", "success end 1", "enter end 1", "success end 1",
+    ]);
+    deepEqual(Array.from(replay(digits.export())).map((step) => step.backtracked).filter((backtracked) => backtracked !== undefined), [{ from: 2, to: 1 }]);
+
+    // no tracer, no events
+    deepEqual(ab.parse(new Source("ab", 0)).is_ok(), true);
+    deepEqual(trace.events.length, 6);
+}
+
+// test cst
+{
+    const input = "{ \"a\" : [1, 2], // two\n \"b\": {} }\n";
+    const { result, cst } = parseCst(json({ profile: "jsonc" }), input);
+    deepEqual(result.unwrap(), { a: [1, 2], b: {} });
+    deepEqual(cstText(cst), input);
+    deepEqual(cst.children.map((child) => child.type === "node" ? child.rule : child.text), ["json"]);
+    deepEqual(cstFind(cst, "member").map(cstText), [`"a" : [1, 2]`, `"b": {} `]);
+    deepEqual(cstFind(cst, "number").map(cstText), ["1", "2"]);
+    const comment = cstFind(cst, "ws").map(cstText).filter((text) => text.includes("//"));
+    deepEqual(comment, [" // two\n "]);
+    const [array] = cstFind(cst, "array");
+    deepEqual(array.children.map((child) => child.type === "node" ? child.rule : child.text), ["[", "ws", "value", ",", "ws", "value", "]", "ws"]);
+    deepEqual(array.span.start, { offset: 8, line: 1, column: 9 });
+
+    const ab = seq(char("a"), char("b")).named("ab");
+    const ac = seq(char("a"), char("c")).named("ac");
+    const word = parseCst(ab.attempt().or(ac), "ac!");
+    deepEqual(word.cst.children.map((child) => child.type === "node" ? child.rule : child.text), ["ac", "!"]);
+    // rules matched by a failed alternative or by a lookahead are dropped
+    const backtracked = parseCst(seq(char("a").named("X"), char("!")).join().attempt().or(regex(/\w+/)).named("word"), "ab");
+    deepEqual(cstFind(backtracked.cst, "word")[0].children.map((child) => child.type === "node" ? child.rule : child.text), ["ab"]);
+    const peeked = parseCst(seq(char("a").named("X").peek(), regex(/\w+/)).named("word"), "ab");
+    deepEqual(cstFind(peeked.cst, "word")[0].children.map((child) => child.type === "node" ? child.rule : child.text), ["ab"]);
+
+    // rules of a result taken from the memo table are in the tree too
+    const memo_word = regex(/[a-z]+/).named("word").memo();
+    const stmt = seq(memo_word, char("!")).attempt().or(seq(memo_word, char("?"))).named("stmt");
+    const memoized = parseCst(stmt, "abc?");
+    deepEqual(cstFind(memoized.cst, "stmt")[0].children.map((child) => child.type === "node" ? child.rule : child.text), ["word", "?"]);
+    deepEqual(cstFind(memoized.cst, "word").map(cstText), ["abc"]);
+    const sum: Parser<string> = seq(lazy(() => sum), char("+"), memo_word).join().or(memo_word).named("sum").memo();
+    const grown = parseCst(sum, "a+b+c");
+    deepEqual(cstFind(grown.cst, "sum").map(cstText), ["a+b+c", "a+b", "a"]);
+    deepEqual(cstFind(grown.cst, "word").map(cstText), ["a", "b", "c"]);
+
+    const failed = parseCst(json(), "[1, x]");
+    deepEqual(failed.result.is_ok(), false);
+    deepEqual(cstText(failed.cst), "[1, x]");
+}
+
+// test reparse
+{
+    const space = oneOf(" \n").many().skip();
+    const num = oneOf("0123456789").many1().join().map(Number).followedBy(space);
+    const minus = char("-").followedBy(space);
+    const diff: Parser<number> = lazy(() => diff).followedBy(minus).then(num).map(([l, r]) => l - r).or(num).memo();
+    const nil = string("nil").followedBy(letter().not()).followedBy(space).map((): null => null);
+    const word = letter().many1().join().followedBy(space);
+    const list: Parser<any[]> = lazy(() => seq(char("(").followedBy(space), item.many(), char(")").followedBy(space))).map(([, items]) => items).memo();
+    const item: Parser<any> = alt(list, diff, nil.attempt(), word).memo();
+    const doc = space.next(item.many()).followedBy(eof());
+
+    let parse = parseIncremental(doc, "(a 1 - 2) (nil nils (b)) 3 - 4 - 5 c");
+    deepEqual(parse.result.unwrap(), [["a", -1], [null, "nils", ["b"]], -6, "c"]);
+    deepEqual(parse.source.read_from, 0);
+    // other sources don't record what their parsers read
+    const plain = new Source(parse.input, 0);
+    doc.parse(plain);
+    deepEqual([plain.read_from, plain.read_to], [Infinity, -Infinity]);
+    parse = reparse(parse, { start: 11, deleted: 3, inserted: "x" });
+    deepEqual(parse.input, "(a 1 - 2) (x nils (b)) 3 - 4 - 5 c");
+    deepEqual(parse.result.unwrap(), [["a", -1], ["x", "nils", ["b"]], -6, "c"]);
+    deepEqual(parse.reused > 0, true);
+    // the lookahead of "nil" examined the character after it
+    parse = reparse(parse, { start: 11, deleted: 1, inserted: "nil" });
+    parse = reparse(parse, { start: 14, deleted: 0, inserted: "s" });
+    deepEqual(parse.result.unwrap(), [["a", -1], ["nils", "nils", ["b"]], -6, "c"]);
+
+    // random edits against a full parse, starting over from the valid document now and then
+    const text = parse.input;
+    let seed = 42;
+    const random = (n: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed % n;
+    };
+    const alphabet = "()a1 -nil\n";
+    let reused = 0;
+    for (let i = 0; i < 500; ++i) {
+        if (i % 10 === 0) {
+            parse = parseIncremental(doc, text);
+        }
+        const start = random(parse.input.length + 1);
+        const deleted = random(Math.min(2, parse.input.length - start) + 1);
+        const inserted = Array.from({ length: random(3) }, () => alphabet[random(alphabet.length)]).join("");
+        parse = reparse(parse, { start, deleted, inserted });
+        reused += parse.reused;
+        const full = doc.parse(new Source(parse.input, 0));
+        deepEqual(parse.result.is_ok(), full.is_ok(), parse.input);
+        if (full.is_ok()) {
+            deepEqual(parse.result.unwrap(), full.unwrap(), parse.input);
+        } else {
+            deepEqual(parse.result.unwrap_err(), full.unwrap_err(), parse.input);
+        }
+    }
+    deepEqual(reused > 0, true);
+}
+
+// test execute
+{
+    // nesting is limited by the memory, not by the call stack
+    const input = "[".repeat(10000) + "]".repeat(10000);
+    let value = json().parse(new Source(input, 0)).unwrap();
+    let depth = 0;
+    while (Array.isArray(value) && value.length === 1) {
+        value = value[0];
+        depth += 1;
+    }
+    deepEqual([depth, value], [9999, []]);
+
+    const limited = json().parse(new Source(input, 0, { maxDepth: 1000 }));
+    deepEqual(limited.is_ok(), false);
+    deepEqual(limited.unwrap_err().toString(), "nesting deeper than 1000");
+    deepEqual(json().parse(new Source("[[[1]]]", 0, { maxDepth: 1000 })).unwrap(), [[[1]]]);
+
+    // the whole parse fails, no alternative is tried
+    const parens: Parser<number> = lazy(() => char("(").next(parens.optional()).followedBy(char(")")).map((inner) => (inner || 0) + 1));
+    deepEqual(parens.parse(new Source("((()))", 0, { maxDepth: 100 })).unwrap(), 3);
+    const either = alt(parens.attempt(), char("(").map(() => 0));
+    const deep = "(".repeat(30) + ")".repeat(30);
+    deepEqual(String(either.parse(new Source(deep, 0, { maxDepth: 20 })).unwrap_err()), "nesting deeper than 20");
+    // also through parsers run on the call stack
+    const called = custom((source) => parens.parse(source));
+    deepEqual(String(alt(called, always(0)).parse(new Source(deep, 0, { maxDepth: 20 })).unwrap_err()), "nesting deeper than 20");
+    // past the nesting that runs on the call stack too
+    deepEqual(String(either.parse(new Source("(".repeat(600) + ")".repeat(600), 0, { maxDepth: 500 })).unwrap_err()), "nesting deeper than 500");
+
+    // gen() bodies yield to the same stack
+    const nested: Parser<number> = gen(function* () {
+        yield char("<");
+        const inner: number | undefined = yield* nested.optional();
+        yield char(">");
+        return (inner || 0) + 1;
+    });
+    deepEqual(nested.parse(new Source("<".repeat(5000) + ">".repeat(5000), 0)).unwrap(), 5000);
+
+    // an interrupted parse exits its rules, leaves no `memo()` seed behind and keeps what it examined
+    const trace = new Trace();
+    const rule: Parser<number> = lazy(() => char("(").next(rule.optional()).followedBy(char(")")).map((inner) => (inner || 0) + 1)).memo().named("rule");
+    const interrupted = parseIncremental(rule, "(".repeat(150) + ")".repeat(150), { tracer: trace, maxDepth: 120 });
+    deepEqual(String(interrupted.result.unwrap_err()), "nesting deeper than 120");
+    // the 121st rule enters before its `lazy()` gets too deep
+    deepEqual(trace.events.filter((event) => event.type === "enter").length, 121);
+    deepEqual(trace.events.filter((event) => event.type === "fail").length, 121);
+    // only the outermost rule finished, with the error
+    deepEqual(Array.from(interrupted.source.memo_entries()).map(([, pos]) => pos), [0]);
+    deepEqual(interrupted.source.read_from, 0);
+    const events = trace.events.length;
+    rule.parse(new Source("()", 0, { tracer: trace }));
+    deepEqual(trace.events[events].depth, 0);
+    deepEqual(reparse(interrupted, { start: 0, deleted: 100, inserted: "" }).result.unwrap(), 50);
+}
+
+// test parse, execute
+{
+    // the combinators calling their nested parsers directly and `execute()` running their steps agree
+    const outcome = <T>(parse: (source: Source) => ParseResult<T>, input: string, options?: SourceOptions) => {
+        const source = new Source(input, 0, options);
+        const result = parse(source);
+        const value = result.is_ok() ? result.unwrap() : [result.unwrap_err().pos, String(result.unwrap_err())];
+        return [result.is_ok(), value, source.pos, source.diagnostics.map(String)];
+    };
+    const same = <T>(parser: Parser<T>, inputs: string[]) => {
+        for (const input of inputs) {
+            deepEqual(outcome((source) => execute(parser, source), input), outcome((source) => parser.parse(source), input));
+        }
+    };
+    same(json(), [`{"a":[1,2.5e3,{"b":null}],"c":"\\u0041"}`, `[1,2,`, `{"a" 1}`, ` [true, fals] `, `{"a":1}}`]);
+    same(json({ profile: "json5" }), [`{a:'x',/* c */b:[.5,+1,],}`, `{a:'x`, `// c\n[Infinity, NaN, 0x1F]`]);
+    same(string_literal({ profile: "js", quotes: ["\"", "'"] }), [`"a\\nb"`, `'\\u{1F600}'`, `"a\\qb"`, `"abc`]);
+
+    const num = grammar.decimal();
+    const binop = (ch: string, f: (x: number, y: number) => number) => char(ch).retn(f);
+    const expr: Parser<number> = grammar.expression({
+        atom: num.or(char("(").next(lazy(() => expr)).followedBy(char(")"))),
+        operators: [
+            [{ prefix: char("-").retn((x: number) => -x) }],
+            [{ infix: binop("^", Math.pow), assoc: "right" }],
+            [{ infix: binop("*", (x, y) => x * y), assoc: "left" }, { infix: binop("-", (x, y) => x - y), assoc: "left" }],
+            [{ infix: binop("=", (x, y) => Number(x === y)), assoc: "none" }],
+        ],
+    });
+    same(expr.followedBy(eof()), ["1-2*(3-4)^2^1", "-(2", "1=1=1", "2**3"]);
+    const left: Parser<number> = lazy(() => left).followedBy(char("-")).then(num.cut()).map(([l, r]) => l - r).or(num).memo();
+    same(left, ["10-2-3", "10-2-x", "-"]);
+
+    const item = recover(num, char(";"), -1).followedBy(char(";"));
+    same(item.many().followedBy(eof()), ["1;x;23;y4;5;", "1;x"]);
+    const list = char("[").next(num.sepByRecover(char(","), char("]"), 0)).followedBy(char("]"));
+    same(list, ["[1,x,3,]", "[1,2"]);
+
+    const identifier = regex(/[a-z]+/);
+    const pair = struct({ key: identifier, _: char("=").skip(), value: num.sepBy1(char(",")) });
+    const counted = gen(function* () {
+        const length = yield* num;
+        yield* char(":").skip();
+        return yield* any().times(length).join();
+    });
+    const misc = seq(
+        pair.spanned(),
+        char(";").skip(),
+        counted.chain((text) => string(text).expect(`"${text}" again`)),
+        identifier.peek(),
+        string("end").not(),
+        any().until(char(".")).map(([chars]) => chars.join("")),
+        num.chainr1(binop("^", Math.pow)).optional(),
+        char(".").many1().attempt().or(always([])),
+    );
+    same(misc, ["a=1,2;3:abcabcxyz.2^3..", "a=1,2;3:abcabdxyz.", "a=1,2;0:end.", "a=1;1:xxy.2^.", "a:1"]);
+
+    // so do the events of their rules
+    const traced = (parse: (source: Source) => ParseResult<any>, input: string) => {
+        const trace = new Trace();
+        parse(new Source(input, 0, { tracer: trace }));
+        return trace.events;
+    };
+    const document = json();
+    for (const input of [`{"a":[1,{"b":[]}]}`, `{"a":[1,{"b":]}`]) {
+        deepEqual(traced((source) => execute(document, source), input), traced((source) => document.parse(source), input));
+    }
+}
@@ -0,0 +1,133 @@
+import { Source, Tracer, ParseResult, Location } from ".";
+
+export interface TraceEvent {
+    type: "enter" | "success" | "fail";
+    rule: string;
+    /**
+     * number of labelled parsers the event is nested in
+     */
+    depth: number;
+    /**
+     * where the rule started
+     */
+    start: Location;
+    /**
+     * where the rule ended on success, where the error is on failure
+     */
+    end?: Location;
+    /**
+     * the error on failure
+     */
+    message?: string;
+}
+
+/**
+ * serializable record of a traced parse, see `replay()`
+ */
+export interface TraceLog {
+    input: string;
+    events: TraceEvent[];
+}
+
+/**
+ * records the events of the parsers labelled by `named()` and `expect()`:
+ *
+ *     const trace = new Trace();
+ *     parser.parse(new Source(input, 0, { tracer: trace }));
+ *     console.log(trace.toString());
+ */
+export class Trace implements Tracer {
+    readonly events: TraceEvent[] = [];
+    private depth = 0;
+    private input = "";
+    enter(rule: string, source: Source) {
+        if (this.events.length === 0) {
+            this.input = source.slice(0);
+        }
+        this.events.push({ type: "enter", rule, depth: this.depth, start: source.location() });
+        this.depth += 1;
+    }
+    exit(rule: string, source: Source, start: number, result: ParseResult<any>) {
+        this.depth -= 1;
+        const event: TraceEvent = { type: "success", rule, depth: this.depth, start: source.location(start) };
+        if (result.is_ok()) {
+            event.end = source.location();
+        } else {
+            const error = result.unwrap_err();
+            event.type = "fail";
+            event.end = source.location(error.pos);
+            event.message = error.toString();
+        }
+        this.events.push(event);
+    }
+    /**
+     * one line per event indented by its depth, ">" enters a rule, "+" is a success and "-" a failure:
+     *
+     *     > value 1:1
+     *       > object 1:1
+     *       - object 1:1: expected "{", got "["
+     */
+    toString() {
+        return this.events.map((event) => {
+            const indent = "  ".repeat(event.depth);
+            const start = `${event.start.line}:${event.start.column}`;
+            switch (event.type) {
+                case "enter":
+                    return `${indent}> ${event.rule} ${start}\n`;
+                case "success":
+                    return `${indent}+ ${event.rule} ${start}-${location(event.end)}\n`;
+                case "fail":
+                    return `${indent}- ${event.rule} ${location(event.end)}: ${event.message}\n`;
+            }
+        }).join("");
+    }
+    /**
+     * the input and the events, `JSON.stringify()` it to save the trace
+     */
+    export(): TraceLog {
+        return { input: this.input, events: this.events.slice() };
+    }
+}
+
+function location(location?: Location) {
+    return location === undefined ? "?" : `${location.line}:${location.column}`;
+}
+
+export interface ReplayStep {
+    event: TraceEvent;
+    /**
+     * rules entered and not left yet, outermost first
+     */
+    stack: string[];
+    /**
+     * offset the parse had reached before the event, the end of the last success or the error of the last failure
+     */
+    offset: number;
+    /**
+     * set on an "enter" event before "offset", the parse went back to try another way,
+     * e.g. the next alternative of `attempt().or()` or after `until()` ran into its end
+     */
+    backtracked?: { from: number, to: number };
+}
+
+/**
+ * steps through a saved trace event by event
+ */
+export function* replay(log: TraceLog): IterableIterator<ReplayStep> {
+    const stack: string[] = [];
+    let offset = 0;
+    for (const event of log.events) {
+        const step: ReplayStep = { event, stack: stack.slice(), offset };
+        if (event.type === "enter") {
+            if (event.start.offset < offset) {
+                step.backtracked = { from: offset, to: event.start.offset };
+            }
+            stack.push(event.rule);
+            offset = event.start.offset;
+        } else {
+            stack.pop();
+            offset = event.end === undefined ? event.start.offset : event.end.offset;
+        }
+        yield step;
+    }
+}